@@ -5,7 +5,9 @@ set -e
 # This file will be served as /config.js and loaded by the app at runtime
 cat > /usr/share/nginx/html/config.js << CONFIGEOF
 window._env_ = {
-  VITE_API_GATEWAY_URL: "${VITE_API_GATEWAY_URL:-http://kong.biddergod-dev.local:8000}"
+  VITE_API_GATEWAY_URL: "${VITE_API_GATEWAY_URL:-http://kong.biddergod-dev.local:8000}",
+  VITE_USE_MOCK_GATEWAY: "${VITE_USE_MOCK_GATEWAY:-false}",
+  VITE_METRICS_ENDPOINT: "${VITE_METRICS_ENDPOINT:-}"
 };
 CONFIGEOF
 
@@ -0,0 +1,60 @@
+// Argument Helpers
+// Validation for positional arguments and option values; failures are usage errors
+
+import { parseMoney, type Money } from '@biddergod/sdk';
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export type OptionValues = Record<string, string | string[] | boolean | undefined>;
+
+export function requireArg(positionals: string[], index: number, name: string): string {
+  const value = positionals[index];
+  if (!value) {
+    throw new UsageError(`Missing <${name}>`);
+  }
+  return value;
+}
+
+export function getString(values: OptionValues, name: string): string | undefined {
+  const value = values[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+export function getStrings(values: OptionValues, name: string): string[] {
+  const value = values[name];
+  return Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+}
+
+export function parseNumber(value: string, name: string): number {
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number)) {
+    throw new UsageError(`${name} must be a number, got "${value}"`);
+  }
+  return number;
+}
+
+export function parseAmount(value: string, currency: string, name: string): Money {
+  const amount = parseMoney(value, currency);
+  if (!amount || amount.amount <= 0) {
+    throw new UsageError(`${name} must be a positive amount, got "${value}"`);
+  }
+  return amount;
+}
+
+export function getNumber(values: OptionValues, name: string): number | undefined {
+  const value = getString(values, name);
+  return value === undefined ? undefined : parseNumber(value, `--${name}`);
+}
+
+export function getChoice<T extends string>(values: OptionValues, name: string, choices: readonly T[]): T | undefined {
+  const value = getString(values, name);
+  if (value !== undefined && !choices.includes(value as T)) {
+    throw new UsageError(`--${name} must be one of ${choices.join(', ')}`);
+  }
+  return value as T | undefined;
+}
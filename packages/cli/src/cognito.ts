@@ -0,0 +1,99 @@
+// Cognito Sign-In
+// Username/password sign-in against the app's Cognito user pool (USER_PASSWORD_AUTH),
+// with refresh-token renewal after a 401
+// The user pool app client must allow USER_PASSWORD_AUTH
+
+import type { TokenProvider } from '@biddergod/sdk';
+
+export interface CognitoCredentials {
+  region: string;
+  clientId: string;
+  /** Email address for this user pool */
+  username: string;
+  password: string;
+}
+
+interface AuthenticationResult {
+  AccessToken: string;
+  IdToken: string;
+  RefreshToken?: string;
+}
+
+interface InitiateAuthResponse {
+  AuthenticationResult?: AuthenticationResult;
+  ChallengeName?: string;
+}
+
+async function initiateAuth(
+  { region, clientId }: CognitoCredentials,
+  authFlow: 'USER_PASSWORD_AUTH' | 'REFRESH_TOKEN_AUTH',
+  authParameters: Record<string, string>
+): Promise<AuthenticationResult> {
+  const url = `https://cognito-idp.${region}.amazonaws.com/`;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-amz-json-1.1',
+      'X-Amz-Target': 'AWSCognitoIdentityProviderService.InitiateAuth',
+    },
+    body: JSON.stringify({ AuthFlow: authFlow, ClientId: clientId, AuthParameters: authParameters }),
+  }).catch((error) => {
+    throw new Error(`Could not reach Cognito at ${url}: ${error instanceof Error ? error.message : error}`);
+  });
+  const data = await response.json() as InitiateAuthResponse & { message?: string; __type?: string };
+
+  if (!response.ok) {
+    throw new Error(`Cognito sign-in failed: ${data.message ?? data.__type ?? response.status}`);
+  }
+  if (!data.AuthenticationResult) {
+    throw new Error(`Cognito asked for ${data.ChallengeName ?? 'an extra step'}; finish signing in through the web app first`);
+  }
+
+  return data.AuthenticationResult;
+}
+
+function readUsernameClaim(token: string): string | undefined {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+    return typeof payload.username === 'string' ? payload.username : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Token provider that signs in on first use
+ * Sign-in errors are thrown from getAccessToken, so the CLI calls it before running a command
+ */
+export function cognitoTokenProvider(credentials: CognitoCredentials): TokenProvider {
+  let session: Promise<AuthenticationResult> | null = null;
+
+  const getSession = () => {
+    session ??= initiateAuth(credentials, 'USER_PASSWORD_AUTH', {
+      USERNAME: credentials.username,
+      PASSWORD: credentials.password,
+    });
+    return session;
+  };
+
+  return {
+    getAccessToken: async () => (await getSession()).AccessToken,
+
+    async refreshAccessToken() {
+      const { RefreshToken } = await getSession();
+      if (!RefreshToken) {
+        return undefined;
+      }
+
+      // The refresh response doesn't include a new refresh token
+      const refreshed = await initiateAuth(credentials, 'REFRESH_TOKEN_AUTH', { REFRESH_TOKEN: RefreshToken });
+      session = Promise.resolve({ ...refreshed, RefreshToken });
+      return refreshed.AccessToken;
+    },
+
+    // The SSE stream service verifies the ID token, not the access token
+    getStreamToken: async () => (await getSession()).IdToken,
+
+    getUsername: async () => readUsernameClaim((await getSession()).AccessToken),
+  };
+}
@@ -0,0 +1,33 @@
+// Command Definitions
+// Each group module (auctions, bids, payments, events) exports its commands in this shape;
+// index.ts parses options from the definitions and generates the help text
+
+import type { OptionValues } from './args';
+import type { OutputFormat } from './output';
+
+export interface OptionSpec {
+  type: 'string' | 'boolean';
+  description: string;
+  /** Placeholder shown in help for string options (default: value) */
+  placeholder?: string;
+  /** Single-letter alias, e.g. 'o' for -o */
+  short?: string;
+  /** String option that may be repeated; its value is an array */
+  multiple?: boolean;
+}
+
+export interface CommandContext {
+  positionals: string[];
+  values: OptionValues;
+  output: OutputFormat;
+}
+
+export interface Command {
+  /** Positional arguments, for the help text (e.g. '<auctionId> <amount>') */
+  args?: string;
+  description: string;
+  options?: Record<string, OptionSpec>;
+  run(context: CommandContext): Promise<void>;
+}
+
+export type CommandGroup = Record<string, Command>;
@@ -0,0 +1,190 @@
+// auctions: list, get, create, open, end, cancel
+
+import {
+  AUCTION_STATES,
+  cancelAuction,
+  createAuction,
+  endAuction,
+  getAllAuctions,
+  getAuctionById,
+  getAuctionCurrency,
+  getAuctionImages,
+  getAuctionState,
+  openAuction,
+  type Auction,
+  type AuctionSort,
+} from '@biddergod/sdk';
+import { getChoice, getNumber, getString, getStrings, requireArg, UsageError, type OptionValues } from '../args';
+import type { CommandGroup } from '../command';
+import { printResult, type Row } from '../output';
+
+const SORTS: readonly AuctionSort[] = ['ending_soon', 'newest', 'price_low', 'price_high', 'most_bids'];
+
+function toRow(auction: Auction): Row {
+  return {
+    id: auction.id,
+    item: auction.itemName,
+    status: getAuctionState(auction),
+    price: auction.currentPrice || auction.startingPrice,
+    currency: getAuctionCurrency(auction),
+    ends: auction.endTime,
+    seller: auction.sellerId,
+  };
+}
+
+function toRecord(auction: Auction): Row {
+  return {
+    id: auction.id,
+    item: auction.itemName,
+    description: auction.itemDescription,
+    category: auction.category,
+    condition: auction.condition,
+    status: getAuctionState(auction),
+    startingPrice: auction.startingPrice,
+    currentPrice: auction.currentPrice,
+    currency: getAuctionCurrency(auction),
+    seller: auction.sellerId,
+    winner: auction.winnerId,
+    starts: auction.startTime,
+    ends: auction.endTime,
+    images: getAuctionImages(auction).map((image) => image.url).join(' '),
+  };
+}
+
+/**
+ * ISO end time from --end, or from --duration minutes after the start
+ */
+function getEndTime(values: OptionValues, startTime: string): string {
+  const end = getString(values, 'end');
+  const duration = getNumber(values, 'duration');
+
+  if (end && duration !== undefined) {
+    throw new UsageError('Pass either --end or --duration, not both');
+  }
+  if (end) {
+    const endTime = Date.parse(end);
+    if (Number.isNaN(endTime)) {
+      throw new UsageError(`--end must be a date, got "${end}"`);
+    }
+    return new Date(endTime).toISOString();
+  }
+  if (duration === undefined || duration <= 0) {
+    throw new UsageError('Pass --end <time> or a positive --duration <minutes>');
+  }
+  return new Date(Date.parse(startTime) + duration * 60_000).toISOString();
+}
+
+export const auctionCommands: CommandGroup = {
+  list: {
+    description: 'List auctions, one page at a time',
+    options: {
+      query: { type: 'string', description: 'Search item names and descriptions', placeholder: 'text' },
+      category: { type: 'string', description: 'Only this category', placeholder: 'name' },
+      status: { type: 'string', description: AUCTION_STATES.join(' | '), placeholder: 'status' },
+      seller: { type: 'string', description: 'Only auctions by this seller', placeholder: 'userId' },
+      'min-price': { type: 'string', description: 'Lowest current price', placeholder: 'amount' },
+      'max-price': { type: 'string', description: 'Highest current price', placeholder: 'amount' },
+      sort: { type: 'string', description: SORTS.join(' | '), placeholder: 'order' },
+      limit: { type: 'string', description: 'Page size (default 20)', placeholder: 'n' },
+      cursor: { type: 'string', description: 'Page to fetch, from a previous page', placeholder: 'cursor' },
+    },
+    async run({ values, output }) {
+      const page = await getAllAuctions({
+        query: getString(values, 'query'),
+        category: getString(values, 'category'),
+        status: getChoice(values, 'status', AUCTION_STATES),
+        sellerId: getString(values, 'seller'),
+        minPrice: getNumber(values, 'min-price'),
+        maxPrice: getNumber(values, 'max-price'),
+        sort: getChoice(values, 'sort', SORTS),
+        limit: getNumber(values, 'limit'),
+        cursor: getString(values, 'cursor'),
+      });
+
+      const total = page.total !== undefined ? ` of ${page.total}` : '';
+      const footer = page.nextCursor
+        ? `${page.auctions.length}${total} shown. Next page: --cursor ${page.nextCursor}`
+        : `${page.auctions.length}${total} shown`;
+      printResult(output, page, page.auctions.map(toRow), footer);
+    },
+  },
+
+  get: {
+    args: '<auctionId>',
+    description: 'Show one auction',
+    async run({ positionals, output }) {
+      const auction = await getAuctionById(requireArg(positionals, 0, 'auctionId'));
+      printResult(output, auction, toRecord(auction));
+    },
+  },
+
+  create: {
+    description: 'Create a draft auction, sold by the signed-in user',
+    options: {
+      name: { type: 'string', description: 'Item name (required)', placeholder: 'text' },
+      description: { type: 'string', description: 'Item description (required)', placeholder: 'text' },
+      'starting-price': { type: 'string', description: 'Starting price (required)', placeholder: 'amount' },
+      currency: { type: 'string', description: 'ISO 4217 code of the prices (default: USD)', placeholder: 'code' },
+      start: { type: 'string', description: 'Start time (default: now)', placeholder: 'time' },
+      end: { type: 'string', description: 'End time', placeholder: 'time' },
+      duration: { type: 'string', description: 'Or: minutes from the start until it ends', placeholder: 'minutes' },
+      category: { type: 'string', description: 'Category', placeholder: 'name' },
+      condition: { type: 'string', description: 'Item condition', placeholder: 'text' },
+      image: { type: 'string', multiple: true, description: 'Image URL, repeat for more (the first is the primary image)', placeholder: 'url' },
+    },
+    async run({ values, output }) {
+      const itemName = getString(values, 'name');
+      const itemDescription = getString(values, 'description');
+      const startingPrice = getNumber(values, 'starting-price');
+      if (!itemName || !itemDescription || startingPrice === undefined) {
+        throw new UsageError('--name, --description and --starting-price are required');
+      }
+
+      const start = getString(values, 'start');
+      const startTime = start ? new Date(start) : new Date();
+      if (Number.isNaN(startTime.getTime())) {
+        throw new UsageError(`--start must be a date, got "${start}"`);
+      }
+
+      const auction = await createAuction({
+        itemName,
+        itemDescription,
+        startingPrice,
+        currency: getString(values, 'currency')?.toUpperCase(),
+        startTime: startTime.toISOString(),
+        endTime: getEndTime(values, startTime.toISOString()),
+        category: getString(values, 'category'),
+        condition: getString(values, 'condition'),
+        images: getStrings(values, 'image').map((url, position) => ({ url, position })),
+      });
+      printResult(output, auction, toRecord(auction));
+    },
+  },
+
+  open: {
+    args: '<auctionId>',
+    description: 'Open a draft auction for bidding (scheduled if its start time is ahead)',
+    async run({ positionals, output }) {
+      const auction = await openAuction(requireArg(positionals, 0, 'auctionId'));
+      printResult(output, auction, toRecord(auction));
+    },
+  },
+
+  end: {
+    args: '<auctionId>',
+    description: 'End an open or extended auction now',
+    async run({ positionals, output }) {
+      const auction = await endAuction(requireArg(positionals, 0, 'auctionId'));
+      printResult(output, auction, toRecord(auction));
+    },
+  },
+
+  cancel: {
+    args: '<auctionId>',
+    description: 'Cancel an auction nobody has bid on yet',
+    async run({ positionals, output }) {
+      const auction = await cancelAuction(requireArg(positionals, 0, 'auctionId'));
+      printResult(output, auction, toRecord(auction));
+    },
+  },
+};
@@ -0,0 +1,103 @@
+// bids: place, history
+
+import {
+  getBidHistory,
+  getDisplayName,
+  getPublicProfiles,
+  getSessionUsername,
+  placeBid,
+  type Bid,
+  type BidHistoryResponse,
+  type PublicProfile,
+} from '@biddergod/sdk';
+import { getChoice, getNumber, getString, parseNumber, requireArg, UsageError } from '../args';
+import type { CommandGroup } from '../command';
+import { printResult, type Row } from '../output';
+
+function toRow(bid: Bid, profiles: Record<string, PublicProfile>): Row {
+  return {
+    bid: bid.bidId,
+    bidder: bid.bidderId,
+    name: getDisplayName(bid.bidderId, profiles[bid.bidderId]),
+    amount: bid.amount,
+    time: bid.timestamp,
+  };
+}
+
+/**
+ * Bidders' display names for the table; the history still prints without them
+ */
+function getBidderProfiles(bids: Bid[]): Promise<Record<string, PublicProfile>> {
+  return getPublicProfiles(bids.map((bid) => bid.bidderId)).catch(() => ({}));
+}
+
+export const bidCommands: CommandGroup = {
+  place: {
+    args: '<auctionId> <amount>',
+    description: 'Place a bid (reruns reuse its Idempotency-Key until it is decided)',
+    options: {
+      bidder: { type: 'string', description: 'Bid as this user (default: the signed-in user)', placeholder: 'userId' },
+    },
+    async run({ positionals, values, output }) {
+      const auctionId = requireArg(positionals, 0, 'auctionId');
+      const amount = parseNumber(requireArg(positionals, 1, 'amount'), '<amount>');
+      const bidderId = getString(values, 'bidder') ?? await getSessionUsername();
+      if (!bidderId) {
+        throw new UsageError('Sign in or pass --bidder');
+      }
+
+      const bid = await placeBid(auctionId, bidderId, amount, {
+        onRetry: ({ attempt, maxRetries, delayMs, error }) => {
+          console.error(`Retry ${attempt}/${maxRetries} in ${Math.round(delayMs)}ms: ${error.message}`);
+        },
+      });
+      printResult(output, bid, {
+        bid: bid.bidId,
+        auction: bid.auctionId,
+        bidder: bid.bidderId,
+        amount: bid.amount,
+        time: bid.timestamp,
+        message: bid.message,
+      });
+    },
+  },
+
+  history: {
+    args: '<auctionId>',
+    description: 'Page through the bids on an auction',
+    options: {
+      limit: { type: 'string', description: 'Bids per page', placeholder: 'n' },
+      cursor: { type: 'string', description: 'Page to fetch, from a previous page', placeholder: 'cursor' },
+      direction: { type: 'string', description: 'asc | desc', placeholder: 'order' },
+      all: { type: 'boolean', description: 'Follow the cursors and print every page' },
+    },
+    async run({ positionals, values, output }) {
+      const auctionId = requireArg(positionals, 0, 'auctionId');
+      const params = {
+        limit: getNumber(values, 'limit'),
+        cursor: getString(values, 'cursor'),
+        direction: getChoice(values, 'direction', ['asc', 'desc'] as const),
+      };
+
+      let page = await getBidHistory(auctionId, params);
+
+      if (values.all) {
+        const bids = [...page.bids];
+        while (page.hasMore && page.nextCursor) {
+          page = await getBidHistory(auctionId, { ...params, cursor: page.nextCursor });
+          bids.push(...page.bids);
+        }
+        const all: BidHistoryResponse = { bids, hasMore: false };
+        const profiles = await getBidderProfiles(bids);
+        printResult(output, all, bids.map((bid) => toRow(bid, profiles)), `${bids.length} bids`);
+        return;
+      }
+
+      const footer = page.hasMore && page.nextCursor
+        ? `${page.bids.length} bids shown. Next page: --cursor ${page.nextCursor}`
+        : `${page.bids.length} bids shown`;
+      const profiles = await getBidderProfiles(page.bids);
+      printResult(output, page, page.bids.map((bid) => toRow(bid, profiles)), footer);
+    },
+  },
+};
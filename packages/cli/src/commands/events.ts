@@ -0,0 +1,62 @@
+// events: tail
+
+import { createEventStream, getAccessToken, type SSEEvent } from '@biddergod/sdk';
+import { getString, UsageError } from '../args';
+import type { CommandGroup } from '../command';
+
+/**
+ * One line per event: time, type, auction and the rest of the payload
+ */
+function formatEvent(event: SSEEvent): string {
+  const { auctionId, ...rest } = event.data ?? {};
+  const details = Object.keys(rest).length > 0 ? JSON.stringify(rest) : event.message ?? '';
+  return [event.timestamp, event.type.padEnd(16), auctionId ?? '-', details].join('  ').trimEnd();
+}
+
+export const eventCommands: CommandGroup = {
+  tail: {
+    description: 'Print live events from /events until interrupted (Ctrl-C)',
+    options: {
+      type: { type: 'string', description: 'Only these event types, comma-separated', placeholder: 'types' },
+      auction: { type: 'string', description: 'Only events about this auction', placeholder: 'auctionId' },
+    },
+    async run({ values, output }) {
+      // The stream rejects anonymous connections, and the SDK client doesn't retry without a token
+      if (!await getAccessToken()) {
+        throw new UsageError('Tailing events needs a signed-in user: set BIDDERGOD_TOKEN or BIDDERGOD_USERNAME and BIDDERGOD_PASSWORD');
+      }
+
+      const types = getString(values, 'type')?.split(',').map((type) => type.trim());
+      const auctionId = getString(values, 'auction');
+      let lastStatus: string | null = null;
+
+      return new Promise<void>((resolve) => {
+        const stream = createEventStream({
+          // Keep trying for as long as the command runs
+          maxReconnectAttempts: 0,
+          onOpen: () => console.error('Connected, waiting for events...'),
+          onEvent: (event) => {
+            if ((types && !types.includes(event.type)) || (auctionId && event.data?.auctionId !== auctionId)) {
+              return;
+            }
+            // One JSON document per line, for piping into jq
+            console.log(output === 'json' ? JSON.stringify(event) : formatEvent(event));
+          },
+          onStateChange: ({ connectionError }) => {
+            if (connectionError && connectionError !== lastStatus) {
+              console.error(connectionError);
+            }
+            lastStatus = connectionError;
+          },
+        });
+
+        process.once('SIGINT', () => {
+          stream.disconnect();
+          resolve();
+        });
+
+        stream.connect();
+      });
+    },
+  },
+};
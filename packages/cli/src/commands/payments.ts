@@ -0,0 +1,62 @@
+// payments: create, get
+
+import {
+  createPaymentIntent,
+  getAuctionById,
+  getAuctionCurrency,
+  getPaymentAmount,
+  getPaymentIntent,
+  toDecimalString,
+  type PaymentIntent,
+} from '@biddergod/sdk';
+import { getString, parseAmount, requireArg } from '../args';
+import type { CommandGroup } from '../command';
+import { printResult, type Row } from '../output';
+
+function toRecord(intent: PaymentIntent): Row {
+  const amount = getPaymentAmount(intent);
+  return {
+    id: intent.id,
+    status: intent.status,
+    amount: `${toDecimalString(amount)} ${amount.currency}`,
+    customer: intent.customerId,
+    auction: intent.metadata?.auctionId,
+    seller: intent.metadata?.sellerId,
+    created: intent.createdAt,
+  };
+}
+
+export const paymentCommands: CommandGroup = {
+  create: {
+    args: '<auctionId> <amount>',
+    description: 'Create a payment intent for an auction (amount in major units, e.g. 25.50)',
+    options: {
+      seller: { type: 'string', description: "Seller to pay (default: the auction's seller)", placeholder: 'userId' },
+      currency: { type: 'string', description: "ISO 4217 code (default: the auction's currency)", placeholder: 'code' },
+    },
+    async run({ positionals, values, output }) {
+      const auctionId = requireArg(positionals, 0, 'auctionId');
+      const amountArg = requireArg(positionals, 1, 'amount');
+      let sellerId = getString(values, 'seller');
+      let currency = getString(values, 'currency');
+      if (!sellerId || !currency) {
+        const auction = await getAuctionById(auctionId);
+        sellerId = sellerId ?? auction.sellerId;
+        currency = currency ?? getAuctionCurrency(auction);
+      }
+      const amount = parseAmount(amountArg, currency, '<amount>');
+
+      const intent = await createPaymentIntent(auctionId, amount, sellerId);
+      printResult(output, intent, toRecord(intent));
+    },
+  },
+
+  get: {
+    args: '<paymentIntentId>',
+    description: 'Show a payment intent',
+    async run({ positionals, output }) {
+      const intent = await getPaymentIntent(requireArg(positionals, 0, 'paymentIntentId'));
+      printResult(output, intent, toRecord(intent));
+    },
+  },
+};
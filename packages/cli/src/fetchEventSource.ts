@@ -0,0 +1,98 @@
+// Fetch-based EventSource
+// Node has no EventSource; this covers what the SDK's SSE client uses: the open,
+// message and error events (and their on* handlers), readyState and close()
+// Like the SDK client expects, it doesn't reconnect by itself
+
+export class FetchEventSource extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+
+  readonly CONNECTING = 0;
+  readonly OPEN = 1;
+  readonly CLOSED = 2;
+
+  readyState: number = FetchEventSource.CONNECTING;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  private readonly controller = new AbortController();
+
+  constructor(readonly url: string) {
+    super();
+    // Handlers also run for dispatchEvent() from outside, e.g. the SDK's connect timeout
+    this.addEventListener('open', (event) => this.onopen?.(event));
+    this.addEventListener('message', (event) => this.onmessage?.(event as MessageEvent));
+    this.addEventListener('error', (event) => this.onerror?.(event));
+    void this.read();
+  }
+
+  close(): void {
+    this.readyState = FetchEventSource.CLOSED;
+    this.controller.abort();
+  }
+
+  private async read(): Promise<void> {
+    try {
+      const response = await fetch(this.url, {
+        headers: { Accept: 'text/event-stream' },
+        signal: this.controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`Stream answered ${response.status}`);
+      }
+
+      this.readyState = FetchEventSource.OPEN;
+      this.dispatchEvent(new Event('open'));
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        buffer += decoder.decode(value, { stream: true });
+        const blocks = buffer.split(/\r?\n\r?\n/);
+        buffer = blocks.pop() ?? '';
+        blocks.forEach((block) => this.dispatchBlock(block));
+      }
+    } catch {
+      // Closed by us, or the connection failed: reported below either way
+    }
+
+    if (this.readyState !== FetchEventSource.CLOSED) {
+      this.readyState = FetchEventSource.CLOSED;
+      this.dispatchEvent(new Event('error'));
+    }
+  }
+
+  /**
+   * One event from the stream: data lines joined by newlines, dispatched under its event name
+   * Comments (keep-alives) and blocks without data are skipped
+   */
+  private dispatchBlock(block: string): void {
+    let type = 'message';
+    const data: string[] = [];
+
+    block.split(/\r?\n/).forEach((line) => {
+      const separator = line.indexOf(':');
+      if (separator === 0) {
+        return;
+      }
+      const field = separator < 0 ? line : line.slice(0, separator);
+      const value = separator < 0 ? '' : line.slice(separator + 1).replace(/^ /, '');
+      if (field === 'event') {
+        type = value;
+      } else if (field === 'data') {
+        data.push(value);
+      }
+    });
+
+    if (data.length > 0) {
+      this.dispatchEvent(new MessageEvent(type, { data: data.join('\n') }));
+    }
+  }
+}
@@ -0,0 +1,35 @@
+// File Storage
+// KeyValueStorage backed by a JSON file, so bid attempts (and their Idempotency-Keys)
+// survive between CLI runs the way localStorage keeps them across page reloads
+
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { KeyValueStorage } from '@biddergod/sdk';
+
+export function createFileStorage(path: string): KeyValueStorage {
+  // A missing or corrupt file reads as empty, like unavailable localStorage
+  const read = (): Record<string, string> => {
+    try {
+      return JSON.parse(readFileSync(path, 'utf8'));
+    } catch {
+      return {};
+    }
+  };
+
+  const write = (values: Record<string, string>) => {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, `${JSON.stringify(values, null, 2)}\n`);
+  };
+
+  return {
+    getItem: (key) => read()[key] ?? null,
+    setItem: (key, value) => {
+      write({ ...read(), [key]: value });
+    },
+    removeItem: (key) => {
+      const values = read();
+      delete values[key];
+      write(values);
+    },
+  };
+}
@@ -0,0 +1,162 @@
+// BidderGod Operations CLI
+// Auctions, bids, payment intents and the live event stream from the terminal,
+// through the same SDK the web app uses
+//
+// Usage: npm run cli -- <group> <command> [arguments] [options]
+//        npm run cli -- help
+
+import { parseArgs } from 'node:util';
+import { getErrorKind, isAbortError, ServiceError } from '@biddergod/sdk';
+import { UsageError, type OptionValues } from './args';
+import type { Command, CommandGroup, OptionSpec } from './command';
+import { auctionCommands } from './commands/auctions';
+import { bidCommands } from './commands/bids';
+import { eventCommands } from './commands/events';
+import { paymentCommands } from './commands/payments';
+import type { OutputFormat } from './output';
+import { configureCli, loadSettings } from './settings';
+
+const GROUPS: Record<string, CommandGroup> = {
+  auctions: auctionCommands,
+  bids: bidCommands,
+  payments: paymentCommands,
+  events: eventCommands,
+};
+
+const GLOBAL_OPTIONS: Record<string, OptionSpec> = {
+  output: { type: 'string', short: 'o', description: 'table | json (default: table)', placeholder: 'format' },
+  gateway: { type: 'string', description: 'Kong gateway URL (BIDDERGOD_GATEWAY_URL)', placeholder: 'url' },
+  token: { type: 'string', description: 'Access token (BIDDERGOD_TOKEN)', placeholder: 'jwt' },
+  username: { type: 'string', description: 'Cognito sign-in email; password from BIDDERGOD_PASSWORD', placeholder: 'email' },
+  config: { type: 'string', description: 'JSON file with any of the settings (BIDDERGOD_CONFIG)', placeholder: 'file' },
+  help: { type: 'boolean', description: 'Show help' },
+};
+
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+function formatOptions(options: Record<string, OptionSpec>): string[] {
+  const entries = Object.entries(options).map(([name, spec]) => [
+    [
+      spec.short ? `-${spec.short}, ` : '',
+      `--${name}`,
+      spec.type === 'string' ? ` <${spec.placeholder ?? 'value'}>` : '',
+      spec.multiple ? ' ...' : '',
+    ].join(''),
+    spec.description,
+  ]);
+  const width = Math.max(...entries.map(([flag]) => flag.length));
+  return entries.map(([flag, description]) => `  ${flag.padEnd(width)}  ${description}`);
+}
+
+function printHelp(): void {
+  const lines = ['Usage: biddergod <group> <command> [arguments] [options]', '', 'Commands:'];
+  Object.entries(GROUPS).forEach(([groupName, group]) => {
+    Object.entries(group).forEach(([commandName, command]) => {
+      const usage = [groupName, commandName, command.args].filter(Boolean).join(' ');
+      lines.push(`  ${usage.padEnd(36)}  ${command.description}`);
+    });
+  });
+  lines.push('', 'Options:', ...formatOptions(GLOBAL_OPTIONS));
+  lines.push('', 'Run "biddergod <group> <command> --help" for the options of a command.');
+  console.log(lines.join('\n'));
+}
+
+function printCommandHelp(groupName: string, commandName: string, command: Command): void {
+  const lines = [
+    `Usage: biddergod ${[groupName, commandName, command.args].filter(Boolean).join(' ')} [options]`,
+    '',
+    command.description,
+  ];
+  if (command.options) {
+    lines.push('', 'Options:', ...formatOptions(command.options));
+  }
+  lines.push('', 'Global options:', ...formatOptions(GLOBAL_OPTIONS));
+  console.log(lines.join('\n'));
+}
+
+function reportError(error: unknown): number {
+  if (error instanceof UsageError) {
+    console.error(`${error.message}\nRun "biddergod help" for usage.`);
+    return EXIT_USAGE;
+  }
+
+  if (error instanceof ServiceError) {
+    // The message already carries the request ID when the request reached the gateway
+    console.error(`Error (${getErrorKind(error)}${error.status ? `, HTTP ${error.status}` : ''}): ${error.message}`);
+    return EXIT_FAILURE;
+  }
+
+  if (isAbortError(error)) {
+    console.error('Cancelled');
+    return EXIT_FAILURE;
+  }
+
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  return EXIT_FAILURE;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [groupName, commandName] = argv;
+
+  if (!groupName || ['help', '--help', '-h'].includes(groupName)) {
+    printHelp();
+    return 0;
+  }
+
+  const group = GROUPS[groupName];
+  if (!group) {
+    throw new UsageError(`Unknown command group "${groupName}"`);
+  }
+
+  const command = commandName ? group[commandName] : undefined;
+  if (!command) {
+    throw new UsageError(
+      commandName
+        ? `Unknown command "${groupName} ${commandName}"`
+        : `Missing command: ${groupName} ${Object.keys(group).join(' | ')}`
+    );
+  }
+
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv.slice(2),
+      options: { ...GLOBAL_OPTIONS, ...command.options },
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    printCommandHelp(groupName, commandName, command);
+    return 0;
+  }
+
+  const output = values.output ?? 'table';
+  if (output !== 'table' && output !== 'json') {
+    throw new UsageError('--output must be table or json');
+  }
+
+  const settings = loadSettings({
+    gateway: values.gateway as string | undefined,
+    token: values.token as string | undefined,
+    username: values.username as string | undefined,
+    config: values.config as string | undefined,
+  });
+  await configureCli(settings);
+
+  // Only string options are declared with multiple, so repeated values are string arrays
+  await command.run({ positionals, values: values as OptionValues, output: output as OutputFormat });
+  return 0;
+}
+
+main(process.argv.slice(2))
+  .catch(reportError)
+  .then((code) => {
+    // Exit once output is flushed; circuit-breaker probes would otherwise keep the process alive
+    process.stdout.write('', () => process.exit(code));
+  });
@@ -0,0 +1,65 @@
+// Output Formatting
+// Every command prints either JSON (for scripts and jq) or a plain-text table (for people)
+
+export type OutputFormat = 'table' | 'json';
+
+export type Row = Record<string, string | number | boolean | null | undefined>;
+
+function formatCell(value: Row[string]): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * Print rows as space-aligned columns, headed by the keys of the first row
+ */
+export function printTable(rows: Row[]): void {
+  if (rows.length === 0) {
+    console.log('(none)');
+    return;
+  }
+
+  const columns = Object.keys(rows[0]);
+  const widths = columns.map((column) =>
+    Math.max(column.length, ...rows.map((row) => formatCell(row[column]).length))
+  );
+  const formatLine = (cells: string[]) =>
+    cells.map((cell, index) => cell.padEnd(widths[index])).join('  ').trimEnd();
+
+  console.log(formatLine(columns.map((column) => column.toUpperCase())));
+  rows.forEach((row) => console.log(formatLine(columns.map((column) => formatCell(row[column])))));
+}
+
+/**
+ * Print one record as field/value lines
+ */
+export function printRecord(row: Row): void {
+  const width = Math.max(...Object.keys(row).map((field) => field.length));
+  Object.entries(row).forEach(([field, value]) => {
+    console.log(`${field.padEnd(width)}  ${formatCell(value)}`);
+  });
+}
+
+export function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+/**
+ * Print a command result: the raw data as JSON, or its table view
+ * The footer (e.g. the next page's cursor) only appears in table output
+ */
+export function printResult(format: OutputFormat, data: unknown, view: Row | Row[], footer?: string): void {
+  if (format === 'json') {
+    printJson(data);
+    return;
+  }
+
+  if (Array.isArray(view)) {
+    printTable(view);
+  } else {
+    printRecord(view);
+  }
+
+  if (footer) {
+    console.log(`\n${footer}`);
+  }
+}
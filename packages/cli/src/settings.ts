@@ -0,0 +1,142 @@
+// CLI Settings
+// Gateway URL and credentials, each taken from the first of: command-line option,
+// environment variable, JSON config file (--config or BIDDERGOD_CONFIG), default
+// The Cognito region and app client default to the web app's amplify_outputs.json
+
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { configureSdk, type TokenProvider, staticTokenProvider } from '@biddergod/sdk';
+import { cognitoTokenProvider } from './cognito';
+import { createFileStorage } from './fileStorage';
+import { FetchEventSource } from './fetchEventSource';
+import { UsageError } from './args';
+
+export interface CliSettings {
+  gatewayUrl: string;
+  /** Access token, used as-is (no refresh) */
+  token?: string;
+  /** Token for /events (default: the access token) */
+  idToken?: string;
+  /** Cognito sign-in (email and password), used when no token is set */
+  username?: string;
+  password?: string;
+  cognitoRegion?: string;
+  cognitoClientId?: string;
+  /** Where bid attempts are kept between runs */
+  stateFile: string;
+}
+
+/**
+ * Settings that can be given as command-line options
+ */
+export interface SettingsOptions {
+  gateway?: string;
+  token?: string;
+  username?: string;
+  config?: string;
+}
+
+const ENVIRONMENT_VARIABLES: Record<keyof CliSettings, string> = {
+  gatewayUrl: 'BIDDERGOD_GATEWAY_URL',
+  token: 'BIDDERGOD_TOKEN',
+  idToken: 'BIDDERGOD_ID_TOKEN',
+  username: 'BIDDERGOD_USERNAME',
+  password: 'BIDDERGOD_PASSWORD',
+  cognitoRegion: 'BIDDERGOD_COGNITO_REGION',
+  cognitoClientId: 'BIDDERGOD_COGNITO_CLIENT_ID',
+  stateFile: 'BIDDERGOD_STATE_FILE',
+};
+
+const AMPLIFY_OUTPUTS_PATH = resolve(dirname(fileURLToPath(import.meta.url)), '../../../amplify_outputs.json');
+
+function readConfigFile(path: string): Partial<CliSettings> {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new UsageError(`Could not read config file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Cognito settings of the deployed web app, when running from a checkout
+ */
+function readAmplifyAuth(): Pick<CliSettings, 'cognitoRegion' | 'cognitoClientId'> {
+  try {
+    const { auth } = JSON.parse(readFileSync(AMPLIFY_OUTPUTS_PATH, 'utf8'));
+    return { cognitoRegion: auth?.aws_region, cognitoClientId: auth?.user_pool_client_id };
+  } catch {
+    return {};
+  }
+}
+
+export function loadSettings(options: SettingsOptions): CliSettings {
+  const configPath = options.config ?? process.env.BIDDERGOD_CONFIG;
+  const file = configPath ? readConfigFile(configPath) : {};
+  const amplifyAuth = readAmplifyAuth();
+
+  const fromOptions: Partial<CliSettings> = {
+    gatewayUrl: options.gateway,
+    token: options.token,
+    username: options.username,
+  };
+
+  // Empty environment variables count as unset
+  const pick = (key: keyof CliSettings): string | undefined =>
+    fromOptions[key] ?? (process.env[ENVIRONMENT_VARIABLES[key]] || undefined) ?? file[key];
+
+  return {
+    gatewayUrl: pick('gatewayUrl') ?? 'http://localhost:8000',
+    token: pick('token'),
+    idToken: pick('idToken'),
+    username: pick('username'),
+    password: pick('password'),
+    cognitoRegion: pick('cognitoRegion') ?? amplifyAuth.cognitoRegion,
+    cognitoClientId: pick('cognitoClientId') ?? amplifyAuth.cognitoClientId,
+    stateFile: pick('stateFile') ?? join(homedir(), '.biddergod', 'cli-state.json'),
+  };
+}
+
+function createTokenProvider(settings: CliSettings): TokenProvider | undefined {
+  if (settings.token) {
+    return staticTokenProvider(settings.token, { streamToken: settings.idToken });
+  }
+
+  if (settings.username || settings.password) {
+    const { username, password, cognitoRegion, cognitoClientId } = settings;
+    if (!username || !password) {
+      throw new UsageError(`Signing in needs both ${ENVIRONMENT_VARIABLES.username} and ${ENVIRONMENT_VARIABLES.password}`);
+    }
+    if (!cognitoRegion || !cognitoClientId) {
+      throw new UsageError(
+        `No Cognito user pool configured: set ${ENVIRONMENT_VARIABLES.cognitoRegion} and ${ENVIRONMENT_VARIABLES.cognitoClientId}`
+      );
+    }
+    return cognitoTokenProvider({ region: cognitoRegion, clientId: cognitoClientId, username, password });
+  }
+
+  // Signed out: public reads (auction lists) still work
+  return undefined;
+}
+
+/**
+ * Point the SDK at the configured gateway and credentials
+ * Signs in up front when credentials are set, so a bad password fails before the command runs
+ */
+export async function configureCli(settings: CliSettings): Promise<void> {
+  const tokenProvider = createTokenProvider(settings);
+
+  configureSdk({
+    gatewayUrl: settings.gatewayUrl,
+    storage: createFileStorage(settings.stateFile),
+    ...(tokenProvider && { tokenProvider }),
+    ...(typeof EventSource === 'undefined' && {
+      EventSource: FetchEventSource as unknown as typeof EventSource,
+    }),
+  });
+
+  if (tokenProvider && !settings.token) {
+    await tokenProvider.getAccessToken();
+  }
+}
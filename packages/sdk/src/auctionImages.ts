@@ -0,0 +1,54 @@
+// Auction Images
+// Ordered image list with alt text, dimensions and a primary image
+// Older auction-service builds only know imageUrls, one comma-separated string, which
+// is still read when an auction has no images and still written alongside them
+
+import type { Auction, AuctionImage } from './generated/auctionApi';
+
+export type { AuctionImage } from './generated/auctionApi';
+
+/**
+ * Sort by position, number the positions from 0 and flag exactly one image as primary
+ * (the first one flagged, otherwise the first in order)
+ */
+export function normalizeAuctionImages(images: AuctionImage[]): AuctionImage[] {
+  const ordered = [...images].sort((a, b) => a.position - b.position);
+  const primaryIndex = Math.max(ordered.findIndex((image) => image.isPrimary), 0);
+  return ordered.map((image, position) => ({ ...image, position, isPrimary: position === primaryIndex }));
+}
+
+/**
+ * Images from a legacy comma-separated imageUrls string
+ */
+export function parseLegacyImageUrls(imageUrls: string | null | undefined): AuctionImage[] {
+  const urls = (imageUrls ?? '').split(',').map((url) => url.trim()).filter(Boolean);
+  return normalizeAuctionImages(urls.map((url, position) => ({ url, position })));
+}
+
+/**
+ * Legacy imageUrls string for older auction-service builds
+ * Readers of it show the first URL, so the primary image goes first; commas inside
+ * a URL are percent-encoded so they don't split it
+ */
+export function toLegacyImageUrls(images: AuctionImage[]): string {
+  const ordered = normalizeAuctionImages(images);
+  return [...ordered.filter((image) => image.isPrimary), ...ordered.filter((image) => !image.isPrimary)]
+    .map((image) => image.url.replace(/,/g, '%2C'))
+    .join(',');
+}
+
+/**
+ * An auction's images in display order, from images or else the legacy imageUrls
+ */
+export function getAuctionImages(auction: Pick<Auction, 'images' | 'imageUrls'>): AuctionImage[] {
+  return auction.images && auction.images.length > 0
+    ? normalizeAuctionImages(auction.images)
+    : parseLegacyImageUrls(auction.imageUrls);
+}
+
+/**
+ * The image shown on cards and lists, undefined when the auction has none
+ */
+export function getPrimaryImage(images: AuctionImage[]): AuctionImage | undefined {
+  return images.find((image) => image.isPrimary) ?? images[0];
+}
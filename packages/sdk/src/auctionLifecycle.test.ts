@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AUCTION_STATES,
+  AUCTION_TRANSITIONS,
+  canTransition,
+  getAuctionState,
+  getAvailableActions,
+  getTransitionTargets,
+  isTerminalState,
+  type AuctionAction,
+  type AuctionState,
+} from './auctionLifecycle';
+
+describe('legal transitions', () => {
+  it.each<[AuctionState, AuctionAction, AuctionState[]]>([
+    ['draft', 'open', ['open', 'scheduled']],
+    ['draft', 'cancel', ['cancelled']],
+    ['scheduled', 'start', ['open']],
+    ['scheduled', 'cancel', ['cancelled']],
+    ['open', 'bid', ['open', 'extended']],
+    ['open', 'end', ['awaiting_payment', 'closed_unsold']],
+    ['open', 'cancel', ['cancelled']],
+    ['extended', 'bid', ['extended']],
+    ['extended', 'end', ['awaiting_payment', 'closed_unsold']],
+    ['awaiting_payment', 'pay', ['paid']],
+    ['awaiting_payment', 'expirePayment', ['closed_unsold']],
+    ['paid', 'settle', ['settled']],
+  ])('%s --%s--> %j', (state, action, targets) => {
+    expect(canTransition(state, action)).toBe(true);
+    expect(getTransitionTargets(state, action)).toEqual(targets);
+  });
+});
+
+describe('illegal transitions', () => {
+  it.each<[AuctionState, AuctionAction]>([
+    ['draft', 'bid'],
+    ['draft', 'end'],
+    ['scheduled', 'bid'],
+    ['open', 'open'],
+    ['open', 'pay'],
+    ['extended', 'cancel'],
+    ['awaiting_payment', 'bid'],
+    ['awaiting_payment', 'cancel'],
+    ['paid', 'pay'],
+    ['closed_unsold', 'open'],
+    ['cancelled', 'open'],
+  ])('%s cannot %s', (state, action) => {
+    expect(canTransition(state, action)).toBe(false);
+    expect(getTransitionTargets(state, action)).toEqual([]);
+  });
+
+  it('leaves nothing to do in the terminal states', () => {
+    const terminal = AUCTION_STATES.filter(isTerminalState);
+    expect(terminal).toEqual(['closed_unsold', 'settled', 'cancelled']);
+  });
+
+  it('only leads to known states', () => {
+    Object.values(AUCTION_TRANSITIONS).forEach((actions) => {
+      Object.values(actions).forEach((targets) => {
+        targets.forEach((target) => expect(AUCTION_STATES).toContain(target));
+      });
+    });
+  });
+});
+
+describe('getAvailableActions', () => {
+  it('lists every legal action in a state', () => {
+    expect(getAvailableActions('open')).toEqual(['bid', 'end', 'cancel']);
+  });
+
+  it('narrows the actions to an actor', () => {
+    expect(getAvailableActions('open', 'seller')).toEqual(['end', 'cancel']);
+    expect(getAvailableActions('open', 'bidder')).toEqual(['bid']);
+    expect(getAvailableActions('awaiting_payment', 'winner')).toEqual(['pay']);
+    expect(getAvailableActions('awaiting_payment', 'seller')).toEqual([]);
+  });
+});
+
+describe('getAuctionState', () => {
+  it('passes current statuses through', () => {
+    expect(getAuctionState({ status: 'extended' })).toBe('extended');
+  });
+
+  it("resolves the legacy 'closed' status by the winner", () => {
+    expect(getAuctionState({ status: 'closed', winnerId: 'alice' })).toBe('awaiting_payment');
+    expect(getAuctionState({ status: 'closed', winnerId: null })).toBe('closed_unsold');
+  });
+});
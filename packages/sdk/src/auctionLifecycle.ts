@@ -0,0 +1,146 @@
+// Auction Lifecycle
+// States an auction moves through and the actions that move it, as one transition table
+// The auction service enforces the same rules; checking them here lets callers hide
+// illegal actions and fail them before a request is sent
+
+import type { Auction, AuctionStatus } from './generated/auctionApi';
+
+/**
+ * Lifecycle state of an auction
+ * The wire status minus the legacy 'closed', which getAuctionState resolves
+ */
+export type AuctionState = Exclude<AuctionStatus, 'closed'>;
+
+/**
+ * Every state, in lifecycle order
+ */
+export const AUCTION_STATES: readonly AuctionState[] = [
+  'draft',
+  'scheduled',
+  'open',
+  'extended',
+  'closed_unsold',
+  'awaiting_payment',
+  'paid',
+  'settled',
+  'cancelled',
+];
+
+/**
+ * Things that move an auction from one state to another
+ * - open: the seller publishes a draft (scheduled when its start time is still ahead)
+ * - start: the start time of a scheduled auction is reached
+ * - bid: a bid is placed; one close to the end extends the auction
+ * - end: the seller ends it early, or the end time is reached
+ * - cancel: the seller withdraws it before anyone has bid
+ * - pay: the winner's payment succeeds
+ * - expirePayment: the payment deadline passes without payment
+ * - settle: the payout to the seller is released
+ */
+export type AuctionAction = 'open' | 'start' | 'bid' | 'end' | 'cancel' | 'pay' | 'expirePayment' | 'settle';
+
+export type AuctionActor = 'seller' | 'bidder' | 'winner' | 'system';
+
+/**
+ * Who can take each action
+ */
+export const AUCTION_ACTION_ACTORS: Record<AuctionAction, readonly AuctionActor[]> = {
+  open: ['seller'],
+  start: ['system'],
+  bid: ['bidder'],
+  end: ['seller', 'system'],
+  cancel: ['seller'],
+  pay: ['winner'],
+  expirePayment: ['system'],
+  settle: ['system'],
+};
+
+/**
+ * Legal actions per state and the states each can lead to
+ * Where there is more than one, the service decides (e.g. end: awaiting_payment when there is a winner)
+ */
+export const AUCTION_TRANSITIONS: {
+  readonly [State in AuctionState]: Partial<Record<AuctionAction, readonly AuctionState[]>>;
+} = {
+  draft: { open: ['open', 'scheduled'], cancel: ['cancelled'] },
+  scheduled: { start: ['open'], cancel: ['cancelled'] },
+  open: { bid: ['open', 'extended'], end: ['awaiting_payment', 'closed_unsold'], cancel: ['cancelled'] },
+  extended: { bid: ['extended'], end: ['awaiting_payment', 'closed_unsold'] },
+  awaiting_payment: { pay: ['paid'], expirePayment: ['closed_unsold'] },
+  paid: { settle: ['settled'] },
+  closed_unsold: {},
+  settled: {},
+  cancelled: {},
+};
+
+/**
+ * Badge text per state, for cards, filters and CLI output
+ */
+export const AUCTION_STATE_LABELS: Record<AuctionState, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  open: 'Open',
+  extended: 'Extended',
+  closed_unsold: 'Unsold',
+  awaiting_payment: 'Awaiting payment',
+  paid: 'Paid',
+  settled: 'Settled',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Coarse grouping of the states: not yet taking bids, taking bids, or over
+ */
+export type AuctionPhase = 'upcoming' | 'live' | 'ended';
+
+export const AUCTION_STATE_PHASES: Record<AuctionState, AuctionPhase> = {
+  draft: 'upcoming',
+  scheduled: 'upcoming',
+  open: 'live',
+  extended: 'live',
+  closed_unsold: 'ended',
+  awaiting_payment: 'ended',
+  paid: 'ended',
+  settled: 'ended',
+  cancelled: 'ended',
+};
+
+/**
+ * Lifecycle state of an auction
+ * Older auction-service builds report 'closed' for every ended auction; the winner tells which one it is
+ */
+export function getAuctionState(auction: Pick<Auction, 'status' | 'winnerId'>): AuctionState {
+  if (auction.status === 'closed') {
+    return auction.winnerId ? 'awaiting_payment' : 'closed_unsold';
+  }
+  return auction.status;
+}
+
+/**
+ * Whether an action is legal in a state
+ */
+export function canTransition(state: AuctionState, action: AuctionAction): boolean {
+  return AUCTION_TRANSITIONS[state][action] !== undefined;
+}
+
+/**
+ * States an action can lead to from a state, empty when it isn't legal there
+ */
+export function getTransitionTargets(state: AuctionState, action: AuctionAction): readonly AuctionState[] {
+  return AUCTION_TRANSITIONS[state][action] ?? [];
+}
+
+/**
+ * Actions that are legal in a state, optionally only those an actor can take
+ */
+export function getAvailableActions(state: AuctionState, actor?: AuctionActor): AuctionAction[] {
+  return (Object.keys(AUCTION_TRANSITIONS[state]) as AuctionAction[])
+    .filter((action) => !actor || AUCTION_ACTION_ACTORS[action].includes(actor));
+}
+
+/**
+ * True once no action can change the auction any more
+ */
+export function isTerminalState(state: AuctionState): boolean {
+  return getAvailableActions(state).length === 0;
+}
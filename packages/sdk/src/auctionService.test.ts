@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Auction } from './types/auction';
+
+type Modules = {
+  auctionService: typeof import('./auctionService');
+  queryCache: typeof import('./queryCache');
+  biddingService: typeof import('./biddingService');
+};
+
+// The query cache lives in module state, so every test gets fresh copies of the modules
+let modules: Modules;
+let fetchMock: ReturnType<typeof vi.fn>;
+
+function auction(id: string, overrides: Partial<Auction> = {}): Auction {
+  return {
+    id,
+    itemName: `Item ${id}`,
+    itemDescription: '',
+    startingPrice: 10,
+    currentPrice: 10,
+    sellerId: 'seller',
+    startTime: '2025-01-01T00:00:00Z',
+    endTime: '2025-01-02T00:00:00Z',
+    status: 'open',
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+beforeEach(async () => {
+  vi.resetModules();
+  const { configureSdk } = await import('./config');
+  fetchMock = vi.fn();
+  configureSdk({ gatewayUrl: 'http://gateway.test', fetch: fetchMock });
+  modules = {
+    auctionService: await import('./auctionService'),
+    queryCache: await import('./queryCache'),
+    biddingService: await import('./biddingService'),
+  };
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('getAllAuctions on a backend that returns a bare array', () => {
+  function respondWith(auctions: Auction[]): void {
+    fetchMock.mockImplementation(async () => new Response(JSON.stringify(auctions), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    }));
+  }
+
+  it('filters and pages locally', async () => {
+    respondWith([auction('a1'), auction('a2', { currentPrice: 50 }), auction('a3', { currentPrice: 80 })]);
+
+    const page = await modules.auctionService.getAllAuctions({ minPrice: 40, sort: 'price_high', limit: 1 });
+
+    expect(page.auctions.map(({ id }) => id)).toEqual(['a3']);
+    expect(page.hasMore).toBe(true);
+    expect(page.total).toBe(2);
+  });
+
+  it('sorts by the cached bid counts for most_bids', async () => {
+    const { fetchQuery } = modules.queryCache;
+    const { bidQueryKeys } = modules.biddingService;
+    respondWith([auction('a1'), auction('a2'), auction('a3')]);
+    // Counted earlier, as getBidCounts does for the auctions on screen
+    await fetchQuery(bidQueryKeys.count('a1'), async () => 2);
+    await fetchQuery(bidQueryKeys.count('a3'), async () => 7);
+
+    const page = await modules.auctionService.getAllAuctions({ sort: 'most_bids' });
+
+    // a2 hasn't been counted yet and sorts as having no bids
+    expect(page.auctions.map(({ id }) => id)).toEqual(['a3', 'a1', 'a2']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getAuctionById', () => {
+  it('reports a malformed currency as a contract violation', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    fetchMock.mockImplementation(async () => new Response(JSON.stringify(auction('a1', { currency: 'dollars' })), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    }));
+
+    await expect(modules.auctionService.getAuctionById('a1')).rejects.toMatchObject({ kind: 'contract-violation' });
+  });
+});
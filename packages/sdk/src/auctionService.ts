@@ -0,0 +1,386 @@
+// Auction Service API Client
+import { z } from 'zod';
+import {
+  AuctionListSchema,
+  AuctionSchema,
+  GetAuctionsResponseSchema,
+  type Auction,
+  type AuctionPage,
+  type AuctionQueryParams,
+  type CreateAuctionRequest,
+  type UpdateAuctionRequest,
+} from './types/auction';
+import { createServiceClient, getSessionUsername, type CallOptions } from './httpClient';
+import * as auctionApi from './generated/auctionApi';
+import { AuctionServiceError, isUnsupportedOperation } from './errors';
+import { getQueryKeys, getQueryState, invalidateQueries, setQueryData } from './queryCache';
+import { normalizeAuctionImages, toLegacyImageUrls, type AuctionImage } from './auctionImages';
+import { AUCTION_STATE_LABELS, canTransition, getAuctionState, type AuctionAction } from './auctionLifecycle';
+import { bidQueryKeys } from './biddingService';
+
+const client = createServiceClient('AUCTION_SERVICE', AuctionServiceError);
+
+/**
+ * Query cache keys for auction reads
+ * Everything under AUCTION_QUERY_PREFIX is invalidated together
+ */
+const AUCTION_QUERY_PREFIX = 'auctions:';
+
+export const auctionQueryKeys = {
+  lists: () => `${AUCTION_QUERY_PREFIX}list:`,
+  list: (params: AuctionQueryParams = {}) => {
+    // Same parameters give the same key regardless of property order
+    const entries = Object.entries(params)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `${auctionQueryKeys.lists()}${JSON.stringify(entries)}`;
+  },
+  /** Every page of a list, see getAllAuctionPages */
+  allPages: (params: AuctionQueryParams = {}) => `${auctionQueryKeys.list(params)}:all`,
+  byId: (id: string) => `${AUCTION_QUERY_PREFIX}detail:${id}`,
+};
+
+/**
+ * Mark every cached auction query as stale and refetch the ones on screen
+ * Called after writes, and on SSE events that change auctions
+ */
+export function invalidateAuctionQueries(): void {
+  invalidateQueries(AUCTION_QUERY_PREFIX);
+}
+
+/**
+ * Patch one auction wherever it is cached, e.g. a new price from a live bid event
+ */
+export function updateCachedAuction(id: string, update: (auction: Auction) => Auction): void {
+  getQueryKeys(auctionQueryKeys.lists()).forEach((key) => {
+    setQueryData<AuctionPage>(key, (page) => ({
+      ...page,
+      auctions: page.auctions.map((auction) => (auction.id === id ? update(auction) : auction)),
+    }));
+  });
+  setQueryData<Auction>(auctionQueryKeys.byId(id), update);
+}
+
+/**
+ * The auction as last seen by any cached query, undefined when it isn't cached
+ */
+export function getCachedAuction(id: string): Auction | undefined {
+  const detail = getQueryState<Auction>(auctionQueryKeys.byId(id)).data;
+  if (detail) {
+    return detail;
+  }
+  for (const key of getQueryKeys(auctionQueryKeys.lists())) {
+    const match = getQueryState<AuctionPage>(key).data?.auctions.find((auction) => auction.id === id);
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Fail an action the lifecycle doesn't allow before sending it
+ * Uses the cached auction, so an auction that isn't cached is left to the service to check
+ */
+function assertTransition(id: string, action: AuctionAction): void {
+  const auction = getCachedAuction(id);
+  if (!auction) {
+    return;
+  }
+
+  const state = getAuctionState(auction);
+  if (!canTransition(state, action)) {
+    throw new AuctionServiceError({
+      kind: 'conflict',
+      message: `Cannot ${action} auction ${id}: it is ${AUCTION_STATE_LABELS[state].toLowerCase()}`,
+      service: 'AUCTION_SERVICE',
+    });
+  }
+}
+
+// Default page size when the caller doesn't pass a limit
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Offset from a local-pagination cursor
+ * The cursor is the offset of the page, base64-encoded so it stays opaque to callers
+ */
+function decodeOffsetCursor(cursor: string): number {
+  let offset = NaN;
+  try {
+    offset = Number(atob(cursor));
+  } catch {
+    // Not base64; reported below
+  }
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    throw new AuctionServiceError({
+      kind: 'validation',
+      message: `Invalid or expired page cursor "${cursor}"`,
+      service: 'AUCTION_SERVICE',
+    });
+  }
+  return offset;
+}
+
+/**
+ * Bid count of an auction as far as the query cache knows it, 0 until it has been counted
+ */
+function getCachedBidCount(auctionId: string): number {
+  return getQueryState<number>(bidQueryKeys.count(auctionId)).data ?? 0;
+}
+
+/**
+ * Search, filter, sort and paginate on the client
+ * Fallback for backends that ignore the query parameters (including the mock gateway)
+ * most_bids uses the bid counts already cached; auctions nobody has counted yet sort as having none
+ */
+function queryAuctionsLocally(auctions: Auction[], params: AuctionQueryParams): AuctionPage {
+  const query = params.query?.trim().toLowerCase();
+
+  const matches = auctions.filter((auction) => {
+    const price = auction.currentPrice || auction.startingPrice;
+    return (!query
+        || auction.itemName.toLowerCase().includes(query)
+        || auction.itemDescription.toLowerCase().includes(query))
+      && (!params.category || auction.category === params.category)
+      && (!params.status || getAuctionState(auction) === params.status)
+      && (!params.sellerId || auction.sellerId === params.sellerId)
+      && (params.minPrice === undefined || price >= params.minPrice)
+      && (params.maxPrice === undefined || price <= params.maxPrice);
+  });
+
+  matches.sort((a, b) => {
+    switch (params.sort) {
+      case 'ending_soon':
+        return Date.parse(a.endTime) - Date.parse(b.endTime);
+      case 'newest':
+        return Date.parse(b.createdAt) - Date.parse(a.createdAt);
+      case 'price_low':
+        return (a.currentPrice || a.startingPrice) - (b.currentPrice || b.startingPrice);
+      case 'price_high':
+        return (b.currentPrice || b.startingPrice) - (a.currentPrice || a.startingPrice);
+      case 'most_bids':
+        return getCachedBidCount(b.id) - getCachedBidCount(a.id);
+      default:
+        return 0;
+    }
+  });
+
+  const offset = params.cursor ? decodeOffsetCursor(params.cursor) : 0;
+  const limit = params.limit ?? DEFAULT_PAGE_SIZE;
+  const hasMore = offset + limit < matches.length;
+
+  return {
+    auctions: matches.slice(offset, offset + limit),
+    nextCursor: hasMore ? btoa(String(offset + limit)) : undefined,
+    hasMore,
+    total: matches.length,
+  };
+}
+
+/**
+ * Get one page of auctions matching the search, filters and sort
+ * Filtering happens server-side; a backend that answers with a bare array
+ * is treated as not supporting it and the query is applied locally
+ */
+export async function getAllAuctions(
+  params: AuctionQueryParams = {},
+  options: CallOptions = {}
+): Promise<AuctionPage> {
+  const query = {
+    q: params.query,
+    category: params.category,
+    status: params.status,
+    sellerId: params.sellerId,
+    minPrice: params.minPrice,
+    maxPrice: params.maxPrice,
+    sort: params.sort,
+    cursor: params.cursor,
+    limit: params.limit,
+  };
+
+  const response = await auctionApi.listAuctions(client, { query }, {
+    schema: z.union([AuctionListSchema, GetAuctionsResponseSchema]),
+    authenticated: false,
+    ...options,
+  });
+
+  if (Array.isArray(response)) {
+    return queryAuctionsLocally(response, params);
+  }
+
+  return {
+    auctions: response.auctions,
+    nextCursor: response.nextCursor ?? undefined,
+    hasMore: response.hasMore ?? Boolean(response.nextCursor),
+    total: response.total,
+  };
+}
+
+/**
+ * Every auction matching the search and filters, following nextCursor through all pages
+ * params.limit is the page size of each request; the result is one page with hasMore false
+ */
+export async function getAllAuctionPages(
+  params: AuctionQueryParams = {},
+  options: CallOptions = {}
+): Promise<AuctionPage> {
+  const auctions: Auction[] = [];
+  let cursor: string | undefined;
+  let total: number | undefined;
+
+  do {
+    const page = await getAllAuctions({ ...params, cursor }, options);
+    auctions.push(...page.auctions);
+    total = page.total;
+    // A backend that hands back the same cursor would otherwise loop forever
+    cursor = page.hasMore && page.nextCursor !== cursor ? page.nextCursor : undefined;
+  } while (cursor);
+
+  return { auctions, hasMore: false, total: total ?? auctions.length };
+}
+
+/**
+ * Get auction by ID
+ */
+export async function getAuctionById(id: string, options: CallOptions = {}): Promise<Auction> {
+  // Backend returns auction object directly, not wrapped in { auction: {...} }
+  return auctionApi.getAuction(client, { path: { id } }, {
+    action: `fetch auction ${id}`,
+    schema: AuctionSchema,
+    authenticated: false,
+    ...options,
+  });
+}
+
+/**
+ * Normalize the images and add the legacy imageUrls that older auction-service builds read
+ */
+function withLegacyImageUrls<T extends { images?: AuctionImage[]; imageUrls?: string }>(data: T): T {
+  if (!data.images) {
+    return data;
+  }
+  const images = normalizeAuctionImages(data.images);
+  return { ...data, images, imageUrls: toLegacyImageUrls(images) };
+}
+
+/**
+ * Create new auction
+ * sellerId comes from the signed-in session (the token provider), not from the caller
+ */
+export async function createAuction(
+  data: Omit<CreateAuctionRequest, 'sellerId'>,
+  options: CallOptions = {}
+): Promise<Auction> {
+  const sellerId = await getSessionUsername();
+
+  if (!sellerId) {
+    throw new AuctionServiceError({
+      kind: 'auth',
+      message: 'No active session. Please sign in again.',
+      service: 'AUCTION_SERVICE',
+      status: 401,
+    });
+  }
+
+  const auction = await auctionApi.createAuction(client, { body: withLegacyImageUrls({ ...data, sellerId }) }, {
+    schema: AuctionSchema,
+    ...options,
+  });
+  invalidateAuctionQueries();
+  return auction;
+}
+
+/**
+ * Update an existing auction
+ */
+export async function updateAuction(
+  id: string,
+  data: UpdateAuctionRequest,
+  options: CallOptions = {}
+): Promise<Auction> {
+  const auction = await auctionApi.updateAuction(client, { path: { id }, body: withLegacyImageUrls(data) }, {
+    action: `update auction ${id}`,
+    schema: AuctionSchema,
+    ...options,
+  });
+  invalidateAuctionQueries();
+  return auction;
+}
+
+/**
+ * Open auction
+ * A draft whose start time is still ahead becomes scheduled instead
+ */
+export async function openAuction(id: string, options: CallOptions = {}): Promise<Auction> {
+  assertTransition(id, 'open');
+  const auction = await auctionApi.openAuction(client, { path: { id } }, {
+    action: `open auction ${id}`,
+    schema: AuctionSchema,
+    ...options,
+  });
+  invalidateAuctionQueries();
+  return auction;
+}
+
+/**
+ * End auction
+ */
+export async function endAuction(id: string, options: CallOptions = {}): Promise<Auction> {
+  assertTransition(id, 'end');
+  const auction = await auctionApi.endAuction(client, { path: { id } }, {
+    action: `end auction ${id}`,
+    schema: AuctionSchema,
+    ...options,
+  });
+  invalidateAuctionQueries();
+  return auction;
+}
+
+/**
+ * Cancel auction
+ * Only before anyone has bid; the service answers 409 otherwise
+ * Older builds have no cancel endpoint and answer 404 or 405, rethrown as a validation error
+ */
+export async function cancelAuction(id: string, options: CallOptions = {}): Promise<Auction> {
+  assertTransition(id, 'cancel');
+  let auction: Auction;
+  try {
+    auction = await auctionApi.cancelAuction(client, { path: { id } }, {
+      action: `cancel auction ${id}`,
+      schema: AuctionSchema,
+      ...options,
+    });
+  } catch (error) {
+    if (!isUnsupportedOperation(error)) {
+      throw error;
+    }
+    const { status, problem, response, requestId } = error as AuctionServiceError;
+    throw new AuctionServiceError({
+      kind: 'validation',
+      message: `Auction ${id} not found, or this auction service can't cancel auctions`,
+      service: 'AUCTION_SERVICE',
+      status,
+      problem,
+      response,
+      requestId,
+    });
+  }
+  invalidateAuctionQueries();
+  return auction;
+}
+
+export const auctionService = {
+  getAllAuctions,
+  getAllAuctionPages,
+  getAuctionById,
+  createAuction,
+  updateAuction,
+  openAuction,
+  endAuction,
+  cancelAuction,
+  invalidateAuctionQueries,
+  updateCachedAuction,
+};
+
+export default auctionService;
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { configureSdk, type KeyValueStorage } from './config';
+import { beginBidAttempt, getPendingBidAttempt, resolveBidAttempt } from './bidAttempts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createStorage(): KeyValueStorage & { values: Map<string, string> } {
+  const values = new Map<string, string>();
+  return {
+    values,
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: (key) => {
+      values.delete(key);
+    },
+  };
+}
+
+let storage: ReturnType<typeof createStorage>;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+  storage = createStorage();
+  configureSdk({ storage });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('beginBidAttempt', () => {
+  it('reuses the key for the same auction, bidder and amount', () => {
+    const first = beginBidAttempt('a1', 'alice', 120);
+    const retry = beginBidAttempt('a1', 'alice', 120);
+    expect(retry.idempotencyKey).toBe(first.idempotencyKey);
+  });
+
+  it('uses a new key for a different amount, bidder or auction', () => {
+    const first = beginBidAttempt('a1', 'alice', 120);
+    const keys = [
+      beginBidAttempt('a1', 'alice', 125).idempotencyKey,
+      beginBidAttempt('a1', 'bob', 120).idempotencyKey,
+      beginBidAttempt('a2', 'alice', 120).idempotencyKey,
+    ];
+    expect(new Set([first.idempotencyKey, ...keys]).size).toBe(4);
+  });
+
+  it('keeps the key across a reload', () => {
+    const first = beginBidAttempt('a1', 'alice', 120);
+
+    // A reload only keeps what is in storage
+    const reloaded = createStorage();
+    storage.values.forEach((value, key) => reloaded.setItem(key, value));
+    configureSdk({ storage: reloaded });
+
+    expect(beginBidAttempt('a1', 'alice', 120).idempotencyKey).toBe(first.idempotencyKey);
+  });
+
+  it('starts over once the attempt has expired', () => {
+    const first = beginBidAttempt('a1', 'alice', 120);
+
+    vi.advanceTimersByTime(DAY_MS - 1);
+    expect(beginBidAttempt('a1', 'alice', 120).idempotencyKey).toBe(first.idempotencyKey);
+
+    vi.advanceTimersByTime(1);
+    expect(beginBidAttempt('a1', 'alice', 120).idempotencyKey).not.toBe(first.idempotencyKey);
+  });
+
+  it('reads corrupt storage as empty', () => {
+    storage.setItem('biddergod:bid-attempts', '{not json');
+    expect(beginBidAttempt('a1', 'alice', 120).idempotencyKey).toEqual(expect.any(String));
+  });
+});
+
+describe('getPendingBidAttempt', () => {
+  it('returns the most recent unresolved attempt', () => {
+    beginBidAttempt('a1', 'alice', 120);
+    vi.advanceTimersByTime(1000);
+    const latest = beginBidAttempt('a1', 'alice', 130);
+
+    expect(getPendingBidAttempt('a1', 'alice')).toEqual(latest);
+    expect(getPendingBidAttempt('a1', 'bob')).toBeUndefined();
+  });
+
+  it('ignores expired attempts', () => {
+    beginBidAttempt('a1', 'alice', 120);
+    vi.advanceTimersByTime(DAY_MS);
+    expect(getPendingBidAttempt('a1', 'alice')).toBeUndefined();
+  });
+});
+
+describe('resolveBidAttempt', () => {
+  it('forgets a rejected attempt only', () => {
+    const rejected = beginBidAttempt('a1', 'alice', 120);
+    const other = beginBidAttempt('a1', 'alice', 130);
+
+    resolveBidAttempt(rejected, 'rejected');
+
+    expect(getPendingBidAttempt('a1', 'alice')).toEqual(other);
+    expect(beginBidAttempt('a1', 'alice', 120).idempotencyKey).not.toBe(rejected.idempotencyKey);
+  });
+
+  it('clears every attempt by the bidder on the auction once one is accepted', () => {
+    const accepted = beginBidAttempt('a1', 'alice', 120);
+    beginBidAttempt('a1', 'alice', 130);
+    const elsewhere = beginBidAttempt('a2', 'alice', 120);
+    const otherBidder = beginBidAttempt('a1', 'bob', 140);
+
+    resolveBidAttempt(accepted, 'accepted');
+
+    expect(getPendingBidAttempt('a1', 'alice')).toBeUndefined();
+    expect(getPendingBidAttempt('a2', 'alice')).toEqual(elsewhere);
+    expect(getPendingBidAttempt('a1', 'bob')).toEqual(otherBidder);
+  });
+
+  it('removes the storage entry when nothing is left', () => {
+    resolveBidAttempt(beginBidAttempt('a1', 'alice', 120), 'accepted');
+    expect(storage.values.size).toBe(0);
+  });
+});
@@ -0,0 +1,106 @@
+// Bid Attempt Records
+// One Idempotency-Key per (auction, bidder, amount), kept in storage until the
+// bid-command service has definitely accepted or rejected the bid, so retries and
+// page reloads resend the same key instead of risking a duplicate bid
+
+import { v4 as uuidv4 } from 'uuid';
+import { getStorage } from './config';
+
+export interface BidAttempt {
+  idempotencyKey: string;
+  auctionId: string;
+  bidderId: string;
+  amount: number;
+  /** ISO 8601 time of the first try */
+  createdAt: string;
+}
+
+export type BidAttemptOutcome = 'accepted' | 'rejected';
+
+const STORAGE_KEY = 'biddergod:bid-attempts';
+
+// Matches how long bid-command remembers idempotency keys
+const ATTEMPT_TTL_MS = 24 * 60 * 60 * 1000;
+
+function getAttemptId(auctionId: string, bidderId: string, amount: number): string {
+  return `${auctionId}:${bidderId}:${amount}`;
+}
+
+/**
+ * Read unexpired attempts; storage that is unavailable or corrupt reads as empty
+ */
+function loadAttempts(): Record<string, BidAttempt> {
+  try {
+    const stored: Record<string, BidAttempt> = JSON.parse(getStorage().getItem(STORAGE_KEY) || '{}');
+    const cutoff = Date.now() - ATTEMPT_TTL_MS;
+    return Object.fromEntries(
+      Object.entries(stored).filter(([, attempt]) => Date.parse(attempt.createdAt) > cutoff)
+    );
+  } catch {
+    return {};
+  }
+}
+
+function saveAttempts(attempts: Record<string, BidAttempt>): void {
+  try {
+    if (Object.keys(attempts).length === 0) {
+      getStorage().removeItem(STORAGE_KEY);
+    } else {
+      getStorage().setItem(STORAGE_KEY, JSON.stringify(attempts));
+    }
+  } catch (error) {
+    // Private browsing or a full quota: keys then only last for this page
+    console.warn('Could not persist bid attempts:', error);
+  }
+}
+
+/**
+ * Get the unresolved attempt for this bid, or start a new one
+ */
+export function beginBidAttempt(auctionId: string, bidderId: string, amount: number): BidAttempt {
+  const attempts = loadAttempts();
+  const id = getAttemptId(auctionId, bidderId, amount);
+
+  if (!attempts[id]) {
+    attempts[id] = {
+      idempotencyKey: uuidv4(),
+      auctionId,
+      bidderId,
+      amount,
+      createdAt: new Date().toISOString(),
+    };
+    saveAttempts(attempts);
+  }
+
+  return attempts[id];
+}
+
+/**
+ * Most recent unresolved attempt by this bidder on this auction, if any
+ */
+export function getPendingBidAttempt(auctionId: string, bidderId: string): BidAttempt | undefined {
+  return Object.values(loadAttempts())
+    .filter((attempt) => attempt.auctionId === auctionId && attempt.bidderId === bidderId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+}
+
+/**
+ * Forget an attempt once its outcome is known
+ * An accepted bid also supersedes this bidder's other unresolved attempts on the auction
+ */
+export function resolveBidAttempt(attempt: BidAttempt, outcome: BidAttemptOutcome): void {
+  const attempts = loadAttempts();
+
+  Object.entries(attempts).forEach(([id, stored]) => {
+    const isSameAttempt = stored.idempotencyKey === attempt.idempotencyKey;
+    const isSuperseded = outcome === 'accepted'
+      && stored.auctionId === attempt.auctionId
+      && stored.bidderId === attempt.bidderId;
+
+    if (isSameAttempt || isSuperseded) {
+      delete attempts[id];
+    }
+  });
+
+  saveAttempts(attempts);
+}
@@ -0,0 +1,203 @@
+// Bidding Service API Client
+// Handles communication with the bid-command service (CQRS Write side)
+// and the bid-query service (CQRS Read side)
+
+import { z } from 'zod';
+import { createServiceClient, type CallOptions } from './httpClient';
+import { BiddingServiceError, getErrorKind, ServiceError } from './errors';
+import { beginBidAttempt, resolveBidAttempt, type BidAttemptOutcome } from './bidAttempts';
+import { fetchQuery, getQueryKeys, setQueryData } from './queryCache';
+import * as bidCommandApi from './generated/bidCommandApi';
+import * as bidQueryApi from './generated/bidQueryApi';
+import type { PlaceBidResponse } from './generated/bidCommandApi';
+import type { BidHistoryResponse } from './generated/bidQueryApi';
+
+// Request/Response types, generated from the bid-command and bid-query OpenAPI specs
+export type { PlaceBidRequest, PlaceBidResponse } from './generated/bidCommandApi';
+export type { Bid, BidHistoryResponse } from './generated/bidQueryApi';
+
+export const PlaceBidResponseSchema: z.ZodType<PlaceBidResponse> = z.object({
+  bidId: z.string(),
+  auctionId: z.string(),
+  bidderId: z.string(),
+  amount: z.number(),
+  timestamp: z.string(),
+  message: z.string().optional(),
+});
+
+const bidCommandClient = createServiceClient('BID_COMMAND', BiddingServiceError);
+const bidQueryClient = createServiceClient('BID_QUERY', BiddingServiceError);
+
+/**
+ * Whether a failed bid got a definite answer from bid-command
+ * Network errors, timeouts, 5xx and 429s leave the outcome unknown (or the bid
+ * unprocessed), so the attempt and its key are kept for the next try
+ */
+function getFailedAttemptOutcome(error: unknown): BidAttemptOutcome | undefined {
+  switch (getErrorKind(error)) {
+    case 'validation':
+    case 'conflict':
+      return 'rejected';
+    case 'auth':
+      // 403 is a refusal; 401 means the request never reached bid-command
+      return error instanceof ServiceError && error.status === 403 ? 'rejected' : undefined;
+    case 'contract-violation':
+      // 2xx with an unexpected body: the bid went through
+      return 'accepted';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Place a bid on an auction
+ * Uses Idempotency-Key header to prevent duplicate bids
+ * The key belongs to the bid attempt (auction, bidder, amount), not to the call:
+ * retries, resubmits and page reloads reuse it until the bid is accepted or rejected
+ */
+export async function placeBid(
+  auctionId: string,
+  bidderId: string,
+  amount: number,
+  options: CallOptions = {}
+): Promise<PlaceBidResponse> {
+  const attempt = beginBidAttempt(auctionId, bidderId, amount);
+
+  try {
+    const response = await bidCommandApi.placeBid(bidCommandClient, {
+      path: { auctionId },
+      header: { 'Idempotency-Key': attempt.idempotencyKey },
+      body: { bidderId, amount },
+    }, {
+      schema: PlaceBidResponseSchema,
+      retry: true,
+      ...options,
+    });
+    resolveBidAttempt(attempt, 'accepted');
+    return response;
+  } catch (error) {
+    const outcome = getFailedAttemptOutcome(error);
+    if (outcome) {
+      resolveBidAttempt(attempt, outcome);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get bid history for an auction (from bid-query service)
+ */
+export interface BidHistoryParams {
+  cursor?: string;
+  limit?: number;
+  direction?: 'asc' | 'desc';
+}
+
+export const BidHistoryResponseSchema: z.ZodType<BidHistoryResponse> = z.object({
+  bids: z.array(z.object({
+    bidId: z.string(),
+    auctionId: z.string(),
+    bidderId: z.string(),
+    amount: z.number(),
+    timestamp: z.string(),
+  })),
+  nextCursor: z.string().optional(),
+  hasMore: z.boolean(),
+});
+
+export async function getBidHistory(
+  auctionId: string,
+  params?: BidHistoryParams,
+  options: CallOptions = {}
+): Promise<BidHistoryResponse> {
+  return bidQueryApi.getBidHistory(bidQueryClient, { path: { auctionId }, query: params }, {
+    schema: BidHistoryResponseSchema,
+    ...options,
+  });
+}
+
+/**
+ * Query cache keys for bid counts
+ * One entry per auction, plus one per set of auctions fetched together (a grid page)
+ */
+const BID_COUNTS_QUERY_PREFIX = 'bids:counts:';
+
+export const bidQueryKeys = {
+  count: (auctionId: string) => `bids:count:${auctionId}`,
+  // Same auctions give the same key regardless of order
+  counts: (auctionIds: string[]) => `${BID_COUNTS_QUERY_PREFIX}${JSON.stringify([...auctionIds].sort())}`,
+};
+
+// bid-query has no count endpoint, so counts come from paging through the history
+const BID_COUNT_PAGE_SIZE = 100;
+
+/**
+ * Number of bids placed on an auction
+ */
+export async function getBidCount(auctionId: string, options: CallOptions = {}): Promise<number> {
+  let count = 0;
+  let cursor: string | undefined;
+
+  do {
+    const page = await bidQueryApi.getBidHistory(bidQueryClient, {
+      path: { auctionId },
+      query: { cursor, limit: BID_COUNT_PAGE_SIZE },
+    }, {
+      action: `count bids on auction ${auctionId}`,
+      schema: BidHistoryResponseSchema,
+      ...options,
+    });
+    count += page.bids.length;
+    cursor = page.hasMore ? page.nextCursor : undefined;
+  } while (cursor);
+
+  return count;
+}
+
+/**
+ * Bid counts for several auctions, keyed by auction ID
+ * Each count goes through the query cache, so auctions shown on several pages are counted once
+ * Auctions whose history couldn't be fetched are left out; fails only when every one failed
+ */
+export async function getBidCounts(auctionIds: string[]): Promise<Record<string, number>> {
+  const results = await Promise.allSettled(
+    auctionIds.map((auctionId) => fetchQuery(
+      bidQueryKeys.count(auctionId),
+      (options) => getBidCount(auctionId, options)
+    ))
+  );
+
+  const counts: Record<string, number> = {};
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      counts[auctionIds[index]] = result.value;
+    }
+  });
+
+  const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (failure && Object.keys(counts).length === 0) {
+    throw failure.reason;
+  }
+  return counts;
+}
+
+/**
+ * Patch an auction's bid count wherever it is cached, e.g. from a live bid event
+ */
+export function updateCachedBidCount(auctionId: string, update: (count: number) => number): void {
+  setQueryData<number>(bidQueryKeys.count(auctionId), update);
+  getQueryKeys(BID_COUNTS_QUERY_PREFIX).forEach((key) => {
+    setQueryData<Record<string, number>>(key, (counts) => (
+      auctionId in counts ? { ...counts, [auctionId]: update(counts[auctionId]) } : counts
+    ));
+  });
+}
+
+export const biddingService = {
+  placeBid,
+  getBidHistory,
+  getBidCount,
+  getBidCounts,
+};
+
+export default biddingService;
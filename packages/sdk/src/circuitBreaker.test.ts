@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CIRCUIT_BREAKER } from './constants';
+
+type CircuitBreaker = typeof import('./circuitBreaker');
+
+// Circuits live in module state, so every test gets a fresh copy of the module
+let breaker: CircuitBreaker;
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+  vi.spyOn(console, 'info').mockImplementation(() => {});
+  vi.resetModules();
+
+  const { configureSdk } = await import('./config');
+  fetchMock = vi.fn();
+  configureSdk({ gatewayUrl: 'http://gateway.test', fetch: fetchMock });
+  breaker = await import('./circuitBreaker');
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+function fail(service: Parameters<CircuitBreaker['recordFailure']>[0], times: number): void {
+  for (let i = 0; i < times; i += 1) {
+    breaker.recordFailure(service);
+  }
+}
+
+describe('closed', () => {
+  it('opens after FAILURE_THRESHOLD failures in a row', () => {
+    const listener = vi.fn();
+    breaker.onCircuitStateChange(listener);
+
+    fail('AUCTION_SERVICE', CIRCUIT_BREAKER.FAILURE_THRESHOLD - 1);
+    expect(breaker.getCircuitState('AUCTION_SERVICE')).toBe('closed');
+    expect(breaker.allowRequest('AUCTION_SERVICE')).toBe(true);
+
+    breaker.recordFailure('AUCTION_SERVICE');
+    expect(breaker.getCircuitState('AUCTION_SERVICE')).toBe('open');
+    expect(breaker.getCircuitOpenedAt('AUCTION_SERVICE')).toBe(Date.now());
+    expect(breaker.allowRequest('AUCTION_SERVICE')).toBe(false);
+    expect(listener).toHaveBeenCalledWith('AUCTION_SERVICE', 'open');
+  });
+
+  it('starts counting again after a success', () => {
+    fail('AUCTION_SERVICE', CIRCUIT_BREAKER.FAILURE_THRESHOLD - 1);
+    breaker.recordSuccess('AUCTION_SERVICE');
+    fail('AUCTION_SERVICE', CIRCUIT_BREAKER.FAILURE_THRESHOLD - 1);
+    expect(breaker.getCircuitState('AUCTION_SERVICE')).toBe('closed');
+  });
+
+  it('keeps circuits separate per service', () => {
+    fail('AUCTION_SERVICE', CIRCUIT_BREAKER.FAILURE_THRESHOLD);
+    expect(breaker.allowRequest('BID_QUERY')).toBe(true);
+  });
+});
+
+describe('open', () => {
+  it('probes the health endpoint every PROBE_INTERVAL until it answers', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 503 }));
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 200 }));
+    fail('AUCTION_SERVICE', CIRCUIT_BREAKER.FAILURE_THRESHOLD);
+
+    await vi.advanceTimersByTimeAsync(CIRCUIT_BREAKER.PROBE_INTERVAL - 1);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledWith('http://gateway.test/api/auction-health', expect.anything());
+    expect(breaker.getCircuitState('AUCTION_SERVICE')).toBe('open');
+
+    await vi.advanceTimersByTimeAsync(CIRCUIT_BREAKER.PROBE_INTERVAL);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(breaker.getCircuitState('AUCTION_SERVICE')).toBe('closed');
+    expect(breaker.getCircuitOpenedAt('AUCTION_SERVICE')).toBe(0);
+    expect(breaker.allowRequest('AUCTION_SERVICE')).toBe(true);
+  });
+
+  it('counts a probe that outlasts PROBE_TIMEOUT as failed', async () => {
+    fetchMock.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+    fail('AUCTION_SERVICE', CIRCUIT_BREAKER.FAILURE_THRESHOLD);
+
+    await vi.advanceTimersByTimeAsync(CIRCUIT_BREAKER.PROBE_INTERVAL + CIRCUIT_BREAKER.PROBE_TIMEOUT);
+    expect(breaker.getCircuitState('AUCTION_SERVICE')).toBe('open');
+
+    // The next probe is scheduled after the failed one
+    await vi.advanceTimersByTimeAsync(CIRCUIT_BREAKER.PROBE_INTERVAL);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('half-open', () => {
+  // The SSE stream has no health endpoint, so its circuit goes half-open instead of probing
+  async function openAndWait(): Promise<void> {
+    fail('SSE_STREAM', CIRCUIT_BREAKER.FAILURE_THRESHOLD);
+    await vi.advanceTimersByTimeAsync(CIRCUIT_BREAKER.PROBE_INTERVAL);
+  }
+
+  it('lets a single trial request through', async () => {
+    await openAndWait();
+    expect(breaker.getCircuitState('SSE_STREAM')).toBe('half-open');
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    expect(breaker.allowRequest('SSE_STREAM')).toBe(true);
+    expect(breaker.allowRequest('SSE_STREAM')).toBe(false);
+  });
+
+  it('closes when the trial succeeds', async () => {
+    await openAndWait();
+    breaker.allowRequest('SSE_STREAM');
+    breaker.recordSuccess('SSE_STREAM');
+
+    expect(breaker.getCircuitState('SSE_STREAM')).toBe('closed');
+    expect(breaker.allowRequest('SSE_STREAM')).toBe(true);
+  });
+
+  it('opens again when the trial fails, and waits another interval', async () => {
+    await openAndWait();
+    breaker.allowRequest('SSE_STREAM');
+    breaker.recordFailure('SSE_STREAM');
+
+    expect(breaker.getCircuitState('SSE_STREAM')).toBe('open');
+    expect(breaker.allowRequest('SSE_STREAM')).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(CIRCUIT_BREAKER.PROBE_INTERVAL);
+    expect(breaker.getCircuitState('SSE_STREAM')).toBe('half-open');
+  });
+
+  it('allows a new trial once a cancelled one is released', async () => {
+    await openAndWait();
+    breaker.allowRequest('SSE_STREAM');
+    breaker.releaseTrial('SSE_STREAM');
+
+    expect(breaker.getCircuitState('SSE_STREAM')).toBe('half-open');
+    expect(breaker.allowRequest('SSE_STREAM')).toBe(true);
+  });
+});
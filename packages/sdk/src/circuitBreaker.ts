@@ -0,0 +1,173 @@
+// Circuit Breaker
+// Per-service breaker so a backend that is down fails fast instead of being hit by every component
+// closed: requests flow; open: requests are refused while the health endpoint is probed;
+// half-open: one trial request decides (services without a health endpoint)
+
+import { CIRCUIT_BREAKER, SERVICE_HEALTH_PATHS, type ServiceName } from './constants';
+import { getFetch, getGatewayUrl } from './config';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** When the circuit last opened, 0 when closed */
+  openedAt: number;
+  probeTimer?: ReturnType<typeof setTimeout>;
+  /** A half-open trial request is in flight */
+  trialInFlight: boolean;
+}
+
+type CircuitStateListener = (service: ServiceName, state: CircuitState) => void;
+
+const circuits = new Map<ServiceName, Circuit>();
+const listeners = new Set<CircuitStateListener>();
+
+function getCircuit(service: ServiceName): Circuit {
+  let circuit = circuits.get(service);
+  if (!circuit) {
+    circuit = { state: 'closed', consecutiveFailures: 0, openedAt: 0, trialInFlight: false };
+    circuits.set(service, circuit);
+  }
+  return circuit;
+}
+
+function setState(service: ServiceName, state: CircuitState): void {
+  const circuit = getCircuit(service);
+  if (circuit.state === state) {
+    return;
+  }
+
+  circuit.state = state;
+  if (state === 'closed') {
+    circuit.consecutiveFailures = 0;
+    circuit.openedAt = 0;
+  }
+  if (state === 'open') {
+    circuit.openedAt = Date.now();
+  }
+
+  console.info(`[circuit] ${service} is now ${state}`);
+  listeners.forEach((listener) => listener(service, state));
+}
+
+/**
+ * Check the service's health endpoint; true when it answers 2xx in time
+ */
+async function probeHealth(url: string): Promise<boolean> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), CIRCUIT_BREAKER.PROBE_TIMEOUT);
+
+  try {
+    const response = await getFetch()(url, { signal: controller.signal });
+    return response.ok;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function scheduleProbe(service: ServiceName): void {
+  const circuit = getCircuit(service);
+  clearTimeout(circuit.probeTimer);
+
+  circuit.probeTimer = setTimeout(async () => {
+    circuit.probeTimer = undefined;
+    const healthPath = SERVICE_HEALTH_PATHS[service];
+
+    if (!healthPath) {
+      // Nothing to probe: let the next request through as a trial
+      setState(service, 'half-open');
+      return;
+    }
+
+    if (await probeHealth(getGatewayUrl(healthPath))) {
+      setState(service, 'closed');
+    } else if (circuit.state === 'open') {
+      scheduleProbe(service);
+    }
+  }, CIRCUIT_BREAKER.PROBE_INTERVAL);
+}
+
+/**
+ * Current state of a service's circuit
+ */
+export function getCircuitState(service: ServiceName): CircuitState {
+  return getCircuit(service).state;
+}
+
+/**
+ * When the circuit opened, for "unavailable since" displays; 0 when closed
+ */
+export function getCircuitOpenedAt(service: ServiceName): number {
+  return getCircuit(service).openedAt;
+}
+
+/**
+ * Whether a request may be sent now
+ * In half-open only one trial request is let through at a time
+ */
+export function allowRequest(service: ServiceName): boolean {
+  const circuit = getCircuit(service);
+
+  if (circuit.state === 'closed') {
+    return true;
+  }
+
+  if (circuit.state === 'half-open' && !circuit.trialInFlight) {
+    circuit.trialInFlight = true;
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * The service answered (any status below 500)
+ */
+export function recordSuccess(service: ServiceName): void {
+  const circuit = getCircuit(service);
+  circuit.trialInFlight = false;
+  circuit.consecutiveFailures = 0;
+  setState(service, 'closed');
+}
+
+/**
+ * The service didn't answer, timed out, or returned 5xx
+ */
+export function recordFailure(service: ServiceName): void {
+  const circuit = getCircuit(service);
+  circuit.consecutiveFailures += 1;
+
+  if (circuit.state === 'half-open') {
+    // Trial failed: back to waiting
+    circuit.trialInFlight = false;
+    setState(service, 'open');
+    scheduleProbe(service);
+    return;
+  }
+
+  if (circuit.state === 'closed' && circuit.consecutiveFailures >= CIRCUIT_BREAKER.FAILURE_THRESHOLD) {
+    setState(service, 'open');
+    scheduleProbe(service);
+  }
+}
+
+/**
+ * A half-open trial ended without an answer either way (e.g. cancelled by the caller)
+ */
+export function releaseTrial(service: ServiceName): void {
+  getCircuit(service).trialInFlight = false;
+}
+
+/**
+ * Subscribe to circuit state changes of every service
+ * Returns an unsubscribe function
+ */
+export function onCircuitStateChange(listener: CircuitStateListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
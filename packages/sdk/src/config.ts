@@ -0,0 +1,153 @@
+// SDK Configuration
+// What the service layer needs from its host: the gateway URL, where tokens come from,
+// and the fetch, EventSource and storage implementations to use
+// Set once at startup with configureSdk(); every call reads it when it runs
+
+/**
+ * Source of the tokens sent to the gateway
+ * The browser app backs this with the Amplify session; scripts can use staticTokenProvider
+ */
+export interface TokenProvider {
+  /** Access token sent as the Bearer token, undefined when signed out */
+  getAccessToken(): Promise<string | undefined>;
+  /**
+   * Get a new access token after a 401
+   * Resolves to undefined when the session can't be refreshed (default: no refresh)
+   */
+  refreshAccessToken?(): Promise<string | undefined>;
+  /** Token for the /events stream (default: the access token) */
+  getStreamToken?(): Promise<string | undefined>;
+  /** Username the tokens were issued for, used as the seller of new auctions */
+  getUsername?(): Promise<string | undefined>;
+}
+
+/**
+ * Key-value store for state that should survive a restart (bid attempt keys)
+ * localStorage satisfies it
+ */
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export type FetchImplementation = typeof fetch;
+
+export type EventSourceImplementation = typeof EventSource;
+
+export interface SdkConfig {
+  /** Kong gateway base URL, without a trailing slash */
+  gatewayUrl: string;
+  tokenProvider: TokenProvider;
+  /** Defaults to the global fetch, looked up on every call */
+  fetch?: FetchImplementation;
+  /** Defaults to the global EventSource, looked up on every connect */
+  EventSource?: EventSourceImplementation;
+  /** Defaults to localStorage where it exists, otherwise memory */
+  storage?: KeyValueStorage;
+}
+
+// Signed out until the host provides tokens: authenticated calls fail with an auth error
+const anonymousTokenProvider: TokenProvider = {
+  getAccessToken: async () => undefined,
+};
+
+function createMemoryStorage(): KeyValueStorage {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: (key) => {
+      values.delete(key);
+    },
+  };
+}
+
+let sdkConfig: SdkConfig = {
+  gatewayUrl: 'http://localhost:8000',
+  tokenProvider: anonymousTokenProvider,
+};
+
+let memoryStorage: KeyValueStorage | null = null;
+
+/**
+ * Set the gateway URL, token provider and implementations used by every call
+ * Options that are left out keep their current value
+ */
+export function configureSdk(options: Partial<SdkConfig>): void {
+  sdkConfig = { ...sdkConfig, ...options };
+  sdkConfig.gatewayUrl = sdkConfig.gatewayUrl.replace(/\/$/, '');
+}
+
+/**
+ * Current configuration
+ */
+export function getSdkConfig(): Readonly<SdkConfig> {
+  return sdkConfig;
+}
+
+/**
+ * Absolute gateway URL for a path such as '/api/auctions'
+ */
+export function getGatewayUrl(path: string = ''): string {
+  return `${sdkConfig.gatewayUrl}${path}`;
+}
+
+/**
+ * The configured fetch, or the global one as it is right now
+ * Looked up late so a fetch patched after startup (e.g. a mock gateway) is still used
+ */
+export function getFetch(): FetchImplementation {
+  return sdkConfig.fetch ?? ((input, init) => globalThis.fetch(input, init));
+}
+
+/**
+ * The configured EventSource, or the global one; undefined when neither exists (Node without a polyfill)
+ */
+export function getEventSource(): EventSourceImplementation | undefined {
+  return sdkConfig.EventSource ?? globalThis.EventSource;
+}
+
+/**
+ * The configured storage, localStorage in browsers, otherwise an in-memory store
+ */
+export function getStorage(): KeyValueStorage {
+  if (sdkConfig.storage) {
+    return sdkConfig.storage;
+  }
+  if (typeof localStorage !== 'undefined') {
+    return localStorage;
+  }
+  memoryStorage ??= createMemoryStorage();
+  return memoryStorage;
+}
+
+/**
+ * Username claim of a JWT, without verifying it (the gateway does that)
+ */
+function readUsernameClaim(token: string): string | undefined {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.username === 'string' ? payload.username : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Token provider for a token obtained elsewhere (CI secrets, a CLI flag)
+ * Refresh isn't possible, so an expired token surfaces as a session-expired auth error
+ * The username defaults to the token's username claim, as in Cognito access tokens
+ */
+export function staticTokenProvider(
+  accessToken: string,
+  options: { streamToken?: string; username?: string } = {}
+): TokenProvider {
+  return {
+    getAccessToken: async () => accessToken,
+    getStreamToken: async () => options.streamToken ?? accessToken,
+    getUsername: async () => options.username ?? readUsernameClaim(accessToken),
+  };
+}
@@ -0,0 +1,109 @@
+// SDK Constants
+// Per-service limits and policies the client enforces, mirroring the Kong configuration
+// at docker-compose/config/kong.yaml
+
+/**
+ * Backend service identifiers
+ * Keys shared by the rate limiter, circuit breaker, errors and metrics
+ */
+export type ServiceName =
+  | 'USER_SERVICE'
+  | 'AUCTION_SERVICE'
+  | 'BID_COMMAND'
+  | 'BID_QUERY'
+  | 'PAYMENT_SERVICE'
+  | 'SSE_STREAM';
+
+/**
+ * User-facing service names, for status banners and messages
+ */
+export const SERVICE_LABELS: Record<ServiceName, string> = {
+  USER_SERVICE: 'Profiles',
+  AUCTION_SERVICE: 'Auctions',
+  BID_COMMAND: 'Bidding',
+  BID_QUERY: 'Bid history',
+  PAYMENT_SERVICE: 'Payments',
+  SSE_STREAM: 'Live updates',
+};
+
+/**
+ * Health check per service, relative to the gateway URL
+ * Probed by the circuit breaker before it closes again; services without one
+ * get a single trial request instead
+ */
+export const SERVICE_HEALTH_PATHS = {
+  USER_SERVICE: '/api/users/health',
+  AUCTION_SERVICE: '/api/auction-health',
+  BID_COMMAND: '/api/bid-command-health',
+  BID_QUERY: '/api/bid-query-health',
+  PAYMENT_SERVICE: '/api/payments/health',
+  SSE_STREAM: null, // the SSE client reconnects on its own
+} as const satisfies Record<ServiceName, string | null>;
+
+/**
+ * Rate Limits (from Kong configuration)
+ */
+export const RATE_LIMITS = {
+  USER_SERVICE: 100, // requests per minute
+  AUCTION_SERVICE: 100, // requests per minute
+  BID_COMMAND: 200, // requests per minute
+  BID_QUERY: 300, // requests per minute
+  PAYMENT_SERVICE: 50, // requests per minute
+  SSE_STREAM: Infinity, // No rate limiting for long-lived connections
+} as const;
+
+/**
+ * Service Timeouts (from Kong configuration)
+ */
+export const SERVICE_TIMEOUTS = {
+  DEFAULT: {
+    CONNECT: 60000, // 60 seconds
+    WRITE: 60000, // 60 seconds
+    READ: 60000, // 60 seconds
+  },
+  SSE: {
+    CONNECT: 60000, // 60 seconds
+    WRITE: 3600000, // 1 hour (for long-lived SSE connections)
+    READ: 3600000, // 1 hour
+  },
+} as const;
+
+/**
+ * Retry Policy for idempotent requests
+ * Applies to safe GETs and to bids that reuse the same Idempotency-Key
+ */
+export const RETRY_POLICY = {
+  MAX_RETRIES: 3, // attempts after the first one
+  BASE_DELAY: 500, // milliseconds, doubled on every attempt
+  MAX_DELAY: 8000, // milliseconds, cap before jitter
+} as const;
+
+/**
+ * Client-side cache for read queries
+ * Cached data is always shown immediately; once older than STALE_TIME it is
+ * refetched in the background the next time a component asks for it
+ */
+export const CACHE_POLICY = {
+  STALE_TIME: 30000, // milliseconds
+} as const;
+
+/**
+ * Circuit Breaker per service
+ * Opens after FAILURE_THRESHOLD failed requests in a row (network errors, timeouts, 5xx),
+ * then fails calls immediately and probes the service's health endpoint every PROBE_INTERVAL
+ */
+export const CIRCUIT_BREAKER = {
+  FAILURE_THRESHOLD: 5,
+  PROBE_INTERVAL: 15000, // milliseconds
+  PROBE_TIMEOUT: 5000, // milliseconds
+} as const;
+
+/**
+ * Client-side metrics
+ * Percentiles are computed over the last SAMPLE_WINDOW samples per endpoint;
+ * exporters receive a snapshot every EXPORT_INTERVAL when something was recorded
+ */
+export const METRICS = {
+  EXPORT_INTERVAL: 60000, // milliseconds
+  SAMPLE_WINDOW: 500,
+} as const;
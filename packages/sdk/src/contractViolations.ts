@@ -0,0 +1,60 @@
+// Contract Violation Log
+// Responses that failed schema validation, kept so the DevConsole can show them
+// even when it wasn't open at the time the request was made
+
+import type { ServiceName } from './constants';
+
+export interface ContractViolation {
+  service: ServiceName;
+  /** What the call was doing (e.g. 'fetch auctions') */
+  action: string;
+  url: string;
+  /** One entry per mismatch, as `path: problem` */
+  issues: string[];
+  /** Response body exactly as received */
+  payload: unknown;
+  timestamp: string;
+}
+
+type ContractViolationListener = (violation: ContractViolation) => void;
+
+// Older entries are dropped once the log is full
+const MAX_VIOLATIONS = 50;
+
+const violations: ContractViolation[] = [];
+const listeners = new Set<ContractViolationListener>();
+
+/**
+ * Record a violation and notify subscribers
+ */
+export function reportContractViolation(violation: ContractViolation): void {
+  violations.push(violation);
+  if (violations.length > MAX_VIOLATIONS) {
+    violations.shift();
+  }
+
+  console.error(
+    `[contract] ${violation.service} response to "${violation.action}" did not match its schema:`,
+    violation.issues,
+    violation.payload
+  );
+  listeners.forEach((listener) => listener(violation));
+}
+
+/**
+ * Violations recorded so far, oldest first
+ */
+export function getContractViolations(): ContractViolation[] {
+  return [...violations];
+}
+
+/**
+ * Subscribe to new violations
+ * Returns an unsubscribe function
+ */
+export function onContractViolation(listener: ContractViolationListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
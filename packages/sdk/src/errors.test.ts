@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AuctionServiceError,
+  getErrorKind,
+  getErrorKindForStatus,
+  isTransientError,
+  parseProblemDetails,
+} from './errors';
+
+describe('parseProblemDetails', () => {
+  it('keeps RFC 7807 bodies as they are, extension members included', () => {
+    const body = {
+      type: 'https://biddergod.dev/problems/bid-too-low',
+      title: 'Bid too low',
+      status: 409,
+      detail: 'Bids must be at least 105.00',
+      minimumBid: 105,
+    };
+    expect(parseProblemDetails(body)).toEqual(body);
+  });
+
+  it('accepts a title without a detail', () => {
+    expect(parseProblemDetails({ title: 'Forbidden', status: 403 })).toEqual({ title: 'Forbidden', status: 403 });
+  });
+
+  it('reads the { message } shape as the detail', () => {
+    expect(parseProblemDetails({ message: 'Auction not found' })).toEqual({
+      message: 'Auction not found',
+      detail: 'Auction not found',
+    });
+  });
+
+  it('joins NestJS validation messages', () => {
+    expect(parseProblemDetails({ message: ['amount must be positive', 'currency is required'], error: 'Bad Request' }))
+      .toMatchObject({ detail: 'amount must be positive; currency is required' });
+  });
+
+  it('falls back to the { error } shape', () => {
+    expect(parseProblemDetails({ error: 'card_declined' })).toMatchObject({ detail: 'card_declined' });
+    expect(parseProblemDetails({ message: '', error: 'card_declined' })).toMatchObject({ detail: 'card_declined' });
+  });
+
+  it('drops a detail that is not a string', () => {
+    expect(parseProblemDetails({ title: 'Conflict', detail: { reason: 'stale' } })).toEqual({ title: 'Conflict' });
+  });
+
+  it('returns undefined for bodies with nothing to show', () => {
+    expect(parseProblemDetails(undefined)).toBeUndefined();
+    expect(parseProblemDetails('Internal Server Error')).toBeUndefined();
+    expect(parseProblemDetails(['error'])).toBeUndefined();
+    expect(parseProblemDetails({})).toBeUndefined();
+    expect(parseProblemDetails({ status: 500, message: 42 })).toBeUndefined();
+  });
+});
+
+describe('getErrorKindForStatus', () => {
+  it('maps HTTP statuses to error kinds', () => {
+    expect(getErrorKindForStatus(400)).toBe('validation');
+    expect(getErrorKindForStatus(401)).toBe('auth');
+    expect(getErrorKindForStatus(403)).toBe('auth');
+    expect(getErrorKindForStatus(404)).toBe('validation');
+    expect(getErrorKindForStatus(409)).toBe('conflict');
+    expect(getErrorKindForStatus(412)).toBe('conflict');
+    expect(getErrorKindForStatus(429)).toBe('rate-limited');
+    expect(getErrorKindForStatus(503)).toBe('server');
+  });
+});
+
+describe('ServiceError', () => {
+  it('appends the request ID to the message', () => {
+    const error = new AuctionServiceError({
+      kind: 'server',
+      message: 'Failed to fetch auctions',
+      service: 'AUCTION_SERVICE',
+      status: 502,
+      requestId: 'req-1',
+    });
+    expect(error.message).toBe('Failed to fetch auctions (Request ID: req-1)');
+    expect(error.name).toBe('AuctionServiceError');
+    expect(getErrorKind(error)).toBe('server');
+    expect(getErrorKind(new Error('plain'))).toBeUndefined();
+  });
+
+  it('retries lost connections and 5xx responses, but not timeouts', () => {
+    const error = (init: Partial<ConstructorParameters<typeof AuctionServiceError>[0]>) => new AuctionServiceError({
+      kind: 'server',
+      message: 'failed',
+      service: 'AUCTION_SERVICE',
+      ...init,
+    });
+
+    expect(isTransientError(error({ kind: 'server', status: 500 }))).toBe(true);
+    expect(isTransientError(error({ kind: 'network' }))).toBe(true);
+    expect(isTransientError(error({ kind: 'network', timedOut: true }))).toBe(false);
+    expect(isTransientError(error({ kind: 'validation', status: 400 }))).toBe(false);
+    expect(isTransientError(new Error('plain'))).toBe(false);
+  });
+});
@@ -0,0 +1,189 @@
+// Service Error Model
+// One error hierarchy for every service module, discriminated by `kind`
+// Error bodies are read as RFC 7807 problem details when the backend sends them
+
+import type { ServiceName } from './constants';
+
+/**
+ * What went wrong, independent of which service failed
+ * - network: request never got a response (offline, DNS, CORS, timeout)
+ * - auth: 401/403, or no usable session
+ * - validation: the request was rejected as invalid (400, 404, 422, other 4xx)
+ * - conflict: the request lost a race with another change (409, 412)
+ * - rate-limited: 429 from Kong, or refused by the client-side limiter
+ * - server: 5xx
+ * - contract-violation: 2xx response whose body doesn't match the expected schema
+ * - unavailable: not sent, the service's circuit breaker is open after repeated failures
+ */
+export type ServiceErrorKind =
+  | 'network'
+  | 'auth'
+  | 'validation'
+  | 'conflict'
+  | 'rate-limited'
+  | 'server'
+  | 'contract-violation'
+  | 'unavailable';
+
+/**
+ * RFC 7807 problem details (application/problem+json)
+ */
+export interface ProblemDetails {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  // Extension members
+  [key: string]: unknown;
+}
+
+export interface ServiceErrorInit {
+  kind: ServiceErrorKind;
+  message: string;
+  service: ServiceName;
+  status?: number;
+  problem?: ProblemDetails;
+  /** Raw response body or underlying error */
+  response?: unknown;
+  /** Server-provided wait before retrying, for rate-limited errors */
+  retryAfterMs?: number;
+  /** Request was aborted by its timeout rather than failing outright */
+  timedOut?: boolean;
+  /** Schema mismatches, for contract-violation errors */
+  issues?: string[];
+  /** X-Request-ID the failed request was sent with; unset when it never left the client */
+  requestId?: string;
+}
+
+/**
+ * Base class for every error thrown by the service modules
+ */
+export class ServiceError extends Error {
+  readonly kind: ServiceErrorKind;
+  readonly service: ServiceName;
+  readonly status?: number;
+  readonly problem?: ProblemDetails;
+  readonly response?: unknown;
+  readonly retryAfterMs?: number;
+  readonly timedOut: boolean;
+  readonly issues?: string[];
+  readonly requestId?: string;
+
+  /**
+   * The request ID is appended to the message, so it reaches whoever reports the error
+   */
+  constructor(init: ServiceErrorInit) {
+    super(init.requestId ? `${init.message} (Request ID: ${init.requestId})` : init.message);
+    this.name = 'ServiceError';
+    this.kind = init.kind;
+    this.service = init.service;
+    this.status = init.status;
+    this.problem = init.problem;
+    this.response = init.response;
+    this.retryAfterMs = init.retryAfterMs;
+    this.timedOut = init.timedOut ?? false;
+    this.issues = init.issues;
+    this.requestId = init.requestId;
+  }
+}
+
+export type ServiceErrorConstructor = new (init: ServiceErrorInit) => ServiceError;
+
+export class AuctionServiceError extends ServiceError {
+  constructor(init: ServiceErrorInit) {
+    super(init);
+    this.name = 'AuctionServiceError';
+  }
+}
+
+export class BiddingServiceError extends ServiceError {
+  constructor(init: ServiceErrorInit) {
+    super(init);
+    this.name = 'BiddingServiceError';
+  }
+}
+
+export class PaymentServiceError extends ServiceError {
+  constructor(init: ServiceErrorInit) {
+    super(init);
+    this.name = 'PaymentServiceError';
+  }
+}
+
+export class UserServiceError extends ServiceError {
+  constructor(init: ServiceErrorInit) {
+    super(init);
+    this.name = 'UserServiceError';
+  }
+}
+
+/**
+ * Map an HTTP error status to an error kind
+ */
+export function getErrorKindForStatus(status: number): ServiceErrorKind {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 409 || status === 412) return 'conflict';
+  if (status === 429) return 'rate-limited';
+  if (status >= 500) return 'server';
+  return 'validation';
+}
+
+/**
+ * Kind of a thrown value, or undefined when it isn't a ServiceError
+ * Components branch on this instead of on message strings
+ */
+export function getErrorKind(error: unknown): ServiceErrorKind | undefined {
+  return error instanceof ServiceError ? error.kind : undefined;
+}
+
+/**
+ * Failures worth retrying: lost connections and 5xx responses
+ * Timeouts are not retried, the caller has already waited the full timeout
+ */
+export function isTransientError(error: unknown): boolean {
+  return error instanceof ServiceError
+    && (error.kind === 'server' || (error.kind === 'network' && !error.timedOut));
+}
+
+/**
+ * Whether the service doesn't offer an operation at all (404, 405 or 501)
+ * Operations marked proposed in the specs may be missing from older builds
+ */
+export function isUnsupportedOperation(error: unknown): boolean {
+  return error instanceof ServiceError
+    && (error.status === 404 || error.status === 405 || error.status === 501);
+}
+
+/**
+ * Read an error body as problem details
+ * Also accepts the older shapes our backends still send:
+ * { detail } from bid-command, { error } from payment, { message } from the rest
+ */
+export function parseProblemDetails(body: unknown): ProblemDetails | undefined {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return undefined;
+  }
+
+  const fields = body as Record<string, unknown>;
+  const problem: ProblemDetails = { ...fields };
+
+  if (typeof fields.detail !== 'string') {
+    // NestJS validation errors send message as a list
+    const message = Array.isArray(fields.message) ? fields.message.join('; ') : fields.message;
+    const legacyDetail = [message, fields.error].find(
+      (value): value is string => typeof value === 'string' && value.length > 0
+    );
+    if (legacyDetail) {
+      problem.detail = legacyDetail;
+    } else {
+      delete problem.detail;
+    }
+  }
+
+  if (!problem.detail && typeof problem.title !== 'string') {
+    return undefined;
+  }
+
+  return problem;
+}
@@ -0,0 +1,265 @@
+// Generated by scripts/generate-api.ts from openapi/auction-service.json - do not edit by hand
+// Update the spec snapshot (npm run generate:api -- --fetch) and regenerate instead
+
+import { buildOperationUrl, type OperationOptions, type ServiceClient } from '../httpClient';
+
+/**
+ * Lifecycle state; closed comes from older builds, which don't tell closed_unsold and awaiting_payment apart
+ * Proposed values, not confirmed against a running service: scheduled, extended, closed_unsold, awaiting_payment, paid, settled, cancelled
+ */
+export type AuctionStatus = 'draft' | 'scheduled' | 'open' | 'extended' | 'closed_unsold' | 'awaiting_payment' | 'paid' | 'settled' | 'cancelled' | 'closed';
+
+/** Proposed: not confirmed against a running service, older builds may not support it */
+export type AuctionSort = 'ending_soon' | 'newest' | 'price_low' | 'price_high' | 'most_bids';
+
+/** Proposed: not confirmed against a running service, older builds may not support it */
+export interface AuctionImage {
+  url: string;
+  /** Display order, starting at 0 */
+  position: number;
+  altText?: string;
+  /** Pixels */
+  width?: number;
+  /** Pixels */
+  height?: number;
+  /** Shown on cards and lists; at most one per auction */
+  isPrimary?: boolean;
+}
+
+export interface Auction {
+  id: string;
+  itemName: string;
+  itemDescription: string;
+  category?: string;
+  condition?: string;
+  /** Proposed: not confirmed against a running service, older builds may not support it */
+  images?: AuctionImage[];
+  /** Comma-separated; legacy, superseded by images */
+  imageUrls?: string | null;
+  startingPrice: number;
+  currentPrice: number;
+  /**
+   * ISO 4217 code of the prices, in major units; USD when missing
+   * Proposed: not confirmed against a running service, older builds may not support it
+   */
+  currency?: string;
+  sellerId: string;
+  winnerId?: string | null;
+  startTime: string;
+  endTime: string;
+  status: AuctionStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Proposed: not confirmed against a running service, older builds may not support it */
+export interface GetAuctionsResponse {
+  auctions: Auction[];
+  nextCursor?: string | null;
+  hasMore?: boolean;
+  total?: number;
+}
+
+export interface CreateAuctionRequest {
+  itemName: string;
+  itemDescription: string;
+  category?: string;
+  condition?: string;
+  /** Proposed: not confirmed against a running service, older builds may not support it */
+  images?: AuctionImage[];
+  /** Comma-separated; legacy, superseded by images */
+  imageUrls?: string;
+  startingPrice: number;
+  /**
+   * ISO 4217 code of the prices; USD when missing
+   * Proposed: not confirmed against a running service, older builds may not support it
+   */
+  currency?: string;
+  sellerId: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface UpdateAuctionRequest {
+  itemName?: string;
+  itemDescription?: string;
+  category?: string;
+  condition?: string;
+  /** Proposed: not confirmed against a running service, older builds may not support it */
+  images?: AuctionImage[];
+  /** Comma-separated; legacy, superseded by images */
+  imageUrls?: string;
+  startingPrice?: number;
+  startTime?: string;
+  endTime?: string;
+}
+
+/**
+ * Fetch auctions
+ * Older builds return a bare array and ignore the query parameters
+ * GET /api/auctions
+ */
+export function listAuctions(
+  client: ServiceClient,
+  request: {
+    query?: {
+      /**
+       * Free-text search over item name and description
+       * Proposed: not confirmed against a running service, older builds may not support it
+       */
+      q?: string;
+      /** Proposed: not confirmed against a running service, older builds may not support it */
+      category?: string;
+      /** Proposed: not confirmed against a running service, older builds may not support it */
+      status?: AuctionStatus;
+      /** Proposed: not confirmed against a running service, older builds may not support it */
+      sellerId?: string;
+      /** Proposed: not confirmed against a running service, older builds may not support it */
+      minPrice?: number;
+      /** Proposed: not confirmed against a running service, older builds may not support it */
+      maxPrice?: number;
+      /** Proposed: not confirmed against a running service, older builds may not support it */
+      sort?: AuctionSort;
+      /** Proposed: not confirmed against a running service, older builds may not support it */
+      cursor?: string;
+      /** Proposed: not confirmed against a running service, older builds may not support it */
+      limit?: number;
+    };
+  } = {},
+  options: OperationOptions<Auction[] | GetAuctionsResponse> = {}
+): Promise<Auction[] | GetAuctionsResponse> {
+  return client.request<Auction[] | GetAuctionsResponse>(buildOperationUrl('/api/auctions', undefined, request.query), {
+    method: 'GET',
+    action: 'fetch auctions',
+    operation: 'listAuctions',
+    ...options,
+  });
+}
+
+/**
+ * Create auction
+ * POST /api/auctions
+ */
+export function createAuction(
+  client: ServiceClient,
+  request: {
+    body: CreateAuctionRequest;
+  },
+  options: OperationOptions<Auction> = {}
+): Promise<Auction> {
+  return client.request<Auction>(buildOperationUrl('/api/auctions'), {
+    method: 'POST',
+    action: 'create auction',
+    operation: 'createAuction',
+    ...options,
+    body: request.body,
+  });
+}
+
+/**
+ * Fetch auction
+ * GET /api/auctions/{id}
+ */
+export function getAuction(
+  client: ServiceClient,
+  request: {
+    path: {
+      id: string;
+    };
+  },
+  options: OperationOptions<Auction> = {}
+): Promise<Auction> {
+  return client.request<Auction>(buildOperationUrl('/api/auctions/{id}', request.path), {
+    method: 'GET',
+    action: 'fetch auction',
+    operation: 'getAuction',
+    ...options,
+  });
+}
+
+/**
+ * Update auction
+ * PUT /api/auctions/{id}
+ */
+export function updateAuction(
+  client: ServiceClient,
+  request: {
+    path: {
+      id: string;
+    };
+    body: UpdateAuctionRequest;
+  },
+  options: OperationOptions<Auction> = {}
+): Promise<Auction> {
+  return client.request<Auction>(buildOperationUrl('/api/auctions/{id}', request.path), {
+    method: 'PUT',
+    action: 'update auction',
+    operation: 'updateAuction',
+    ...options,
+    body: request.body,
+  });
+}
+
+/**
+ * Open auction
+ * POST /api/auctions/{id}/open
+ */
+export function openAuction(
+  client: ServiceClient,
+  request: {
+    path: {
+      id: string;
+    };
+  },
+  options: OperationOptions<Auction> = {}
+): Promise<Auction> {
+  return client.request<Auction>(buildOperationUrl('/api/auctions/{id}/open', request.path), {
+    method: 'POST',
+    action: 'open auction',
+    operation: 'openAuction',
+    ...options,
+  });
+}
+
+/**
+ * End auction
+ * POST /api/auctions/{id}/end
+ */
+export function endAuction(
+  client: ServiceClient,
+  request: {
+    path: {
+      id: string;
+    };
+  },
+  options: OperationOptions<Auction> = {}
+): Promise<Auction> {
+  return client.request<Auction>(buildOperationUrl('/api/auctions/{id}/end', request.path), {
+    method: 'POST',
+    action: 'end auction',
+    operation: 'endAuction',
+    ...options,
+  });
+}
+
+/**
+ * Cancel auction
+ * Proposed: not confirmed against a running service, older builds may not support it
+ * POST /api/auctions/{id}/cancel
+ */
+export function cancelAuction(
+  client: ServiceClient,
+  request: {
+    path: {
+      id: string;
+    };
+  },
+  options: OperationOptions<Auction> = {}
+): Promise<Auction> {
+  return client.request<Auction>(buildOperationUrl('/api/auctions/{id}/cancel', request.path), {
+    method: 'POST',
+    action: 'cancel auction',
+    operation: 'cancelAuction',
+    ...options,
+  });
+}
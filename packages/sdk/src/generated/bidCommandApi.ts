@@ -0,0 +1,46 @@
+// Generated by scripts/generate-api.ts from openapi/bid-command.json - do not edit by hand
+// Update the spec snapshot (npm run generate:api -- --fetch) and regenerate instead
+
+import { buildOperationUrl, type OperationOptions, type ServiceClient } from '../httpClient';
+
+export interface PlaceBidRequest {
+  bidderId: string;
+  amount: number;
+}
+
+export interface PlaceBidResponse {
+  bidId: string;
+  auctionId: string;
+  bidderId: string;
+  amount: number;
+  timestamp: string;
+  message?: string;
+}
+
+/**
+ * Place bid
+ * POST /api/v1/bids/{auctionId}
+ */
+export function placeBid(
+  client: ServiceClient,
+  request: {
+    path: {
+      auctionId: string;
+    };
+    header: {
+      /** Resending a key returns the original result instead of placing a second bid */
+      'Idempotency-Key': string;
+    };
+    body: PlaceBidRequest;
+  },
+  options: OperationOptions<PlaceBidResponse> = {}
+): Promise<PlaceBidResponse> {
+  return client.request<PlaceBidResponse>(buildOperationUrl('/api/v1/bids/{auctionId}', request.path), {
+    method: 'POST',
+    action: 'place bid',
+    operation: 'placeBid',
+    ...options,
+    headers: { ...request.header, ...options.headers },
+    body: request.body,
+  });
+}
@@ -0,0 +1,45 @@
+// Generated by scripts/generate-api.ts from openapi/bid-query.json - do not edit by hand
+// Update the spec snapshot (npm run generate:api -- --fetch) and regenerate instead
+
+import { buildOperationUrl, type OperationOptions, type ServiceClient } from '../httpClient';
+
+export interface Bid {
+  bidId: string;
+  auctionId: string;
+  bidderId: string;
+  amount: number;
+  timestamp: string;
+}
+
+export interface BidHistoryResponse {
+  bids: Bid[];
+  nextCursor?: string;
+  hasMore: boolean;
+}
+
+/**
+ * Fetch bid history
+ * GET /api/v1/bids/{auctionId}
+ */
+export function getBidHistory(
+  client: ServiceClient,
+  request: {
+    path: {
+      auctionId: string;
+    };
+    query?: {
+      /** Opaque cursor from a previous page's nextCursor */
+      cursor?: string;
+      limit?: number;
+      direction?: 'asc' | 'desc';
+    };
+  },
+  options: OperationOptions<BidHistoryResponse> = {}
+): Promise<BidHistoryResponse> {
+  return client.request<BidHistoryResponse>(buildOperationUrl('/api/v1/bids/{auctionId}', request.path, request.query), {
+    method: 'GET',
+    action: 'fetch bid history',
+    operation: 'getBidHistory',
+    ...options,
+  });
+}
@@ -0,0 +1,98 @@
+// Generated by scripts/generate-api.ts from openapi/payment-service.json - do not edit by hand
+// Update the spec snapshot (npm run generate:api -- --fetch) and regenerate instead
+
+import { buildOperationUrl, type OperationOptions, type ServiceClient } from '../httpClient';
+
+export interface CreatePaymentIntentRequest {
+  /** Smallest currency unit (cents for usd) */
+  amount: number;
+  currency?: string;
+  customerId?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface PaymentIntent {
+  id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  clientSecret: string;
+  customerId?: string;
+  metadata?: Record<string, string>;
+  createdAt: string;
+}
+
+export interface ConfirmPaymentRequest {
+  paymentMethodId: string;
+}
+
+export interface PaymentConfirmation {
+  id: string;
+  status: 'succeeded' | 'processing' | 'requires_payment_method' | 'failed';
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Create payment intent
+ * POST /api/payments/payment-intents
+ */
+export function createPaymentIntent(
+  client: ServiceClient,
+  request: {
+    body: CreatePaymentIntentRequest;
+  },
+  options: OperationOptions<PaymentIntent> = {}
+): Promise<PaymentIntent> {
+  return client.request<PaymentIntent>(buildOperationUrl('/api/payments/payment-intents'), {
+    method: 'POST',
+    action: 'create payment intent',
+    operation: 'createPaymentIntent',
+    ...options,
+    body: request.body,
+  });
+}
+
+/**
+ * Fetch payment intent
+ * GET /api/payments/payment-intents/{id}
+ */
+export function getPaymentIntent(
+  client: ServiceClient,
+  request: {
+    path: {
+      id: string;
+    };
+  },
+  options: OperationOptions<PaymentIntent> = {}
+): Promise<PaymentIntent> {
+  return client.request<PaymentIntent>(buildOperationUrl('/api/payments/payment-intents/{id}', request.path), {
+    method: 'GET',
+    action: 'fetch payment intent',
+    operation: 'getPaymentIntent',
+    ...options,
+  });
+}
+
+/**
+ * Confirm payment
+ * POST /api/payments/payment-intents/{id}/confirm
+ */
+export function confirmPaymentIntent(
+  client: ServiceClient,
+  request: {
+    path: {
+      id: string;
+    };
+    body: ConfirmPaymentRequest;
+  },
+  options: OperationOptions<PaymentConfirmation> = {}
+): Promise<PaymentConfirmation> {
+  return client.request<PaymentConfirmation>(buildOperationUrl('/api/payments/payment-intents/{id}/confirm', request.path), {
+    method: 'POST',
+    action: 'confirm payment',
+    operation: 'confirmPaymentIntent',
+    ...options,
+    body: request.body,
+  });
+}
@@ -0,0 +1,96 @@
+// Generated by scripts/generate-api.ts from openapi/user-service.json - do not edit by hand
+// Update the spec snapshot (npm run generate:api -- --fetch) and regenerate instead
+
+import { buildOperationUrl, type OperationOptions, type ServiceClient } from '../httpClient';
+
+export interface UserProfile {
+  id: string;
+  username: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+/** Proposed: not confirmed against a running service, older builds may not support it */
+export interface PublicProfile {
+  id: string;
+  username: string;
+  /** First and last name when set, otherwise the username */
+  displayName: string;
+  avatarUrl?: string;
+}
+
+/** Proposed: not confirmed against a running service, older builds may not support it */
+export interface PublicProfileList {
+  users: PublicProfile[];
+}
+
+export interface UserProfileUpdateRequest {
+  firstName?: string;
+  lastName?: string;
+  idToken?: string;
+}
+
+export interface UserProfileUpdateResponse {
+  message: string;
+  user: UserProfile;
+}
+
+/**
+ * Fetch user profile
+ * GET /api/users/profile
+ */
+export function getUserProfile(
+  client: ServiceClient,
+  options: OperationOptions<UserProfile> = {}
+): Promise<UserProfile> {
+  return client.request<UserProfile>(buildOperationUrl('/api/users/profile'), {
+    method: 'GET',
+    action: 'fetch user profile',
+    operation: 'getUserProfile',
+    ...options,
+  });
+}
+
+/**
+ * Update user profile
+ * PUT /api/users/profile
+ */
+export function updateUserProfile(
+  client: ServiceClient,
+  request: {
+    body: UserProfileUpdateRequest;
+  },
+  options: OperationOptions<UserProfileUpdateResponse> = {}
+): Promise<UserProfileUpdateResponse> {
+  return client.request<UserProfileUpdateResponse>(buildOperationUrl('/api/users/profile'), {
+    method: 'PUT',
+    action: 'update user profile',
+    operation: 'updateUserProfile',
+    ...options,
+    body: request.body,
+  });
+}
+
+/**
+ * Fetch public profiles
+ * Proposed: not confirmed against a running service, older builds may not support it
+ * GET /api/users/public
+ */
+export function getPublicProfiles(
+  client: ServiceClient,
+  request: {
+    query: {
+      /** Comma-separated user IDs or usernames, at most 100 */
+      ids: string;
+    };
+  },
+  options: OperationOptions<PublicProfileList> = {}
+): Promise<PublicProfileList> {
+  return client.request<PublicProfileList>(buildOperationUrl('/api/users/public', undefined, request.query), {
+    method: 'GET',
+    action: 'fetch public profiles',
+    operation: 'getPublicProfiles',
+    ...options,
+  });
+}
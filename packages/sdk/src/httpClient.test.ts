@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TokenProvider } from './config';
+
+type HttpClient = typeof import('./httpClient');
+
+// Refresh and session state live in module state, so every test gets fresh copies of the modules
+let httpClient: HttpClient;
+let fetchMock: ReturnType<typeof vi.fn>;
+let client: ReturnType<HttpClient['createServiceClient']>;
+
+async function setUp(tokenProvider: TokenProvider): Promise<void> {
+  vi.resetModules();
+  const { configureSdk } = await import('./config');
+  const { AuctionServiceError } = await import('./errors');
+  fetchMock = vi.fn(async () => new Response('{"ok":true}', {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  }));
+  configureSdk({ gatewayUrl: 'http://gateway.test', fetch: fetchMock, tokenProvider });
+  httpClient = await import('./httpClient');
+  client = httpClient.createServiceClient('AUCTION_SERVICE', AuctionServiceError);
+}
+
+function sentAuthorization(): string | undefined {
+  const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+  return (init.headers as Record<string, string>).Authorization;
+}
+
+describe('authenticated requests without an access token', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('refresh the session and send the new token', async () => {
+    await setUp({
+      getAccessToken: async () => undefined,
+      refreshAccessToken: async () => 'refreshed',
+    });
+    const sessionExpired = vi.fn();
+    httpClient.onSessionExpired(sessionExpired);
+
+    await expect(client.request('http://gateway.test/api/auctions', { action: 'fetch auctions', operation: 'listAuctions' }))
+      .resolves.toEqual({ ok: true });
+    expect(sentAuthorization()).toBe('Bearer refreshed');
+    expect(sessionExpired).not.toHaveBeenCalled();
+  });
+
+  it('report the session as expired when the refresh brings no token either', async () => {
+    const refreshAccessToken = vi.fn(async () => undefined);
+    await setUp({ getAccessToken: async () => undefined, refreshAccessToken });
+    const sessionExpired = vi.fn();
+    httpClient.onSessionExpired(sessionExpired);
+
+    await expect(client.request('http://gateway.test/api/auctions', { action: 'fetch auctions', operation: 'listAuctions' }))
+      .rejects.toMatchObject({ kind: 'auth', status: 401 });
+    expect(refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(sessionExpired).toHaveBeenCalledTimes(1);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('report the session as expired when the refresh fails', async () => {
+    await setUp({
+      getAccessToken: async () => undefined,
+      refreshAccessToken: async () => {
+        throw new Error('Refresh token has expired');
+      },
+    });
+    const sessionExpired = vi.fn();
+    httpClient.onSessionExpired(sessionExpired);
+
+    await expect(client.request('http://gateway.test/api/auctions', { action: 'fetch auctions', operation: 'listAuctions' }))
+      .rejects.toMatchObject({ kind: 'auth' });
+    expect(sessionExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('leave unauthenticated requests alone', async () => {
+    const refreshAccessToken = vi.fn(async () => undefined);
+    await setUp({ getAccessToken: async () => undefined, refreshAccessToken });
+
+    await client.request('http://gateway.test/api/auctions', { action: 'fetch auctions', operation: 'listAuctions', authenticated: false });
+    expect(sentAuthorization()).toBeUndefined();
+    expect(refreshAccessToken).not.toHaveBeenCalled();
+  });
+});
+
+describe('authenticated requests that get a 401', () => {
+  it('retry once with a refreshed token', async () => {
+    await setUp({ getAccessToken: async () => 'stale', refreshAccessToken: async () => 'fresh' });
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 401 }));
+
+    await expect(client.request('http://gateway.test/api/auctions', { action: 'fetch auctions', operation: 'listAuctions' }))
+      .resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [, retried] = fetchMock.mock.calls[1] as [string, RequestInit];
+    expect((retried.headers as Record<string, string>).Authorization).toBe('Bearer fresh');
+  });
+});
+
+describe('metrics', () => {
+  it('group calls by operation, not by the IDs in their URL', async () => {
+    await setUp({ getAccessToken: async () => 'token' });
+    const { getAuction } = await import('./generated/auctionApi');
+    const { getMetricsSnapshot } = await import('./metrics');
+
+    await getAuction(client, { path: { id: 'a1' } }, { action: 'fetch auction a1' });
+    await getAuction(client, { path: { id: 'a2' } }, { action: 'fetch auction a2' });
+
+    expect(getMetricsSnapshot().endpoints).toEqual([
+      expect.objectContaining({ service: 'AUCTION_SERVICE', method: 'GET', operation: 'getAuction', count: 2 }),
+    ]);
+  });
+});
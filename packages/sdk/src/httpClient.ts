@@ -0,0 +1,522 @@
+// Shared HTTP Client
+// Single request path used by every service module: JSON encoding,
+// Authorization injection, error normalization and response parsing
+
+import { v4 as uuidv4 } from 'uuid';
+import type { ZodType } from 'zod';
+import { RETRY_POLICY, SERVICE_LABELS, SERVICE_TIMEOUTS, type ServiceName } from './constants';
+import { getFetch, getGatewayUrl, getSdkConfig } from './config';
+import {
+  getErrorKindForStatus,
+  isTransientError,
+  parseProblemDetails,
+  ServiceError,
+  type ServiceErrorConstructor,
+} from './errors';
+import { parseRetryAfter, pauseService, reserveRequestSlot, sleep } from './rateLimiter';
+import { reportContractViolation } from './contractViolations';
+import { allowRequest, recordFailure, recordSuccess, releaseTrial } from './circuitBreaker';
+import { recordRequestEnd, recordRequestStart } from './requestLog';
+import { recordApiCall } from './metrics';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RequestOptions<T = unknown> {
+  /** HTTP method (default: GET) */
+  method?: HttpMethod;
+  /** Request payload, JSON-encoded before sending */
+  body?: unknown;
+  /** Extra headers, merged over the defaults */
+  headers?: Record<string, string>;
+  /** Attach the token provider's access token as a Bearer token (default: true) */
+  authenticated?: boolean;
+  /** What the call does, used in error messages (e.g. 'fetch auction 42') */
+  action: string;
+  /** Spec operationId (e.g. 'getAuction'), the same for every ID in the URL; metrics are grouped by it */
+  operation: string;
+  /** Cancels the call when aborted */
+  signal?: AbortSignal;
+  /** Overrides the SERVICE_TIMEOUTS default for this call */
+  timeoutMs?: number;
+  /**
+   * Retry transient failures with backoff (default: true for GET only)
+   * Only enable for requests that are safe to repeat
+   */
+  retry?: boolean;
+  /** Called before each retry, for showing progress */
+  onRetry?: (progress: RetryProgress) => void;
+  /**
+   * Expected shape of a successful response body
+   * A mismatch throws a contract-violation error instead of returning the data
+   */
+  schema?: ZodType<T>;
+}
+
+export interface RetryProgress {
+  /** Retry number, starting at 1 */
+  attempt: number;
+  maxRetries: number;
+  /** Delay before this retry is sent */
+  delayMs: number;
+  /** Failure that triggered the retry */
+  error: ServiceError;
+}
+
+/**
+ * Options for a generated operation function (src/generated)
+ * Method, body and URL come from the spec; action defaults to the operation summary
+ */
+export type OperationOptions<T> = Omit<RequestOptions<T>, 'method' | 'body' | 'action' | 'operation'> & {
+  action?: string;
+};
+
+/**
+ * Per-call options accepted by every service function
+ */
+export interface CallOptions {
+  /** Abort to cancel the request (e.g. when the calling component unmounts) */
+  signal?: AbortSignal;
+  /** Called before each automatic retry */
+  onRetry?: (progress: RetryProgress) => void;
+}
+
+/**
+ * Tracks one call across its retries
+ */
+interface RequestTrace {
+  /** Sent as X-Request-ID on every attempt */
+  requestId: string;
+  /** At least one attempt reached fetch, so the ID may appear in backend logs */
+  sent: boolean;
+  /** Status of the last response */
+  status?: number;
+}
+
+export interface ServiceClient {
+  service: ServiceName;
+  request<T>(url: string, options: RequestOptions<T>): Promise<T>;
+}
+
+/**
+ * Gateway URL for a spec path: fills {placeholders} and appends the query parameters that are set
+ */
+export function buildOperationUrl(
+  path: string,
+  pathParams: Record<string, string | number> = {},
+  query: Record<string, string | number | boolean | undefined> = {}
+): string {
+  const filledPath = path.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(String(pathParams[name])));
+
+  const queryParams = new URLSearchParams();
+  Object.entries(query).forEach(([name, value]) => {
+    if (value !== undefined && value !== '') {
+      queryParams.append(name, String(value));
+    }
+  });
+  const queryString = queryParams.toString();
+
+  return getGatewayUrl(`${filledPath}${queryString ? `?${queryString}` : ''}`);
+}
+
+/**
+ * Get the access token from the configured token provider
+ */
+export async function getAccessToken(): Promise<string | undefined> {
+  return getSdkConfig().tokenProvider.getAccessToken();
+}
+
+// Single in-flight refresh shared by every request that hit a 401 at the same time
+let refreshInFlight: Promise<string | undefined> | null = null;
+
+/**
+ * Ask the token provider for a new access token
+ * Resolves to undefined when the session can't be refreshed
+ */
+export function refreshAccessToken(): Promise<string | undefined> {
+  const { tokenProvider } = getSdkConfig();
+
+  if (!tokenProvider.refreshAccessToken) {
+    return Promise.resolve(undefined);
+  }
+
+  if (!refreshInFlight) {
+    refreshInFlight = tokenProvider.refreshAccessToken()
+      .catch((error) => {
+        console.warn('Session refresh failed:', error);
+        return undefined;
+      })
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+
+  return refreshInFlight;
+}
+
+type SessionExpiredListener = () => void;
+
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+/**
+ * Subscribe to "session could not be refreshed" notifications
+ * Returns an unsubscribe function
+ */
+export function onSessionExpired(listener: SessionExpiredListener): () => void {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+}
+
+function notifySessionExpired(): void {
+  sessionExpiredListeners.forEach((listener) => listener());
+}
+
+/**
+ * Get the username the current access token was issued for
+ */
+export async function getSessionUsername(): Promise<string | undefined> {
+  return getSdkConfig().tokenProvider.getUsername?.();
+}
+
+/**
+ * True when a call was cancelled through its AbortSignal
+ * Cancelled calls are not failures and should not be shown to the user
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Jittered exponential backoff ("full jitter"): random delay up to BASE_DELAY * 2^attempt
+ */
+function getBackoffDelay(attempt: number): number {
+  const ceiling = Math.min(RETRY_POLICY.MAX_DELAY, RETRY_POLICY.BASE_DELAY * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Default timeout from SERVICE_TIMEOUTS: reads use READ, anything that sends a body uses WRITE
+ */
+function getDefaultTimeout(method: HttpMethod): number {
+  return method === 'GET' ? SERVICE_TIMEOUTS.DEFAULT.READ : SERVICE_TIMEOUTS.DEFAULT.WRITE;
+}
+
+/**
+ * Read a response body as JSON when the server says it is JSON, otherwise as text
+ */
+async function parseResponseBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) {
+    return undefined;
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType.includes('json')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Create the request function for one backend service
+ * Every failure is rethrown as the service's own ServiceError subclass
+ * Authenticated calls refresh the session when there is no access token or they get a 401,
+ * then are sent (or retried once); onSessionExpired listeners hear when the refresh fails
+ * Retryable calls are repeated on network errors and 5xx with jittered backoff
+ * Calls to a service whose circuit breaker is open fail immediately
+ * Every call carries an X-Request-ID, kept in its errors and in the request log
+ */
+export function createServiceClient(
+  service: ServiceName,
+  ErrorClass: ServiceErrorConstructor
+): ServiceClient {
+  async function request<T>(url: string, options: RequestOptions<T>): Promise<T> {
+    const { method = 'GET', signal, onRetry } = options;
+    const retry = options.retry ?? method === 'GET';
+    const trace: RequestTrace = { requestId: uuidv4(), sent: false };
+
+    recordRequestStart({
+      requestId: trace.requestId,
+      service,
+      method,
+      url,
+      action: options.action,
+      idempotencyKey: options.headers?.['Idempotency-Key'],
+    });
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const data = await attemptRequest<T>(url, options, trace);
+        recordRequestEnd(trace.requestId, { status: trace.status });
+        return data;
+      } catch (error) {
+        if (!retry || attempt >= RETRY_POLICY.MAX_RETRIES || !isTransientError(error)) {
+          recordRequestEnd(trace.requestId, {
+            status: error instanceof ServiceError ? error.status : trace.status,
+            error: isAbortError(error) ? 'Cancelled' : error instanceof Error ? error.message : String(error),
+          });
+          throw error;
+        }
+
+        const delayMs = getBackoffDelay(attempt);
+        onRetry?.({
+          attempt: attempt + 1,
+          maxRetries: RETRY_POLICY.MAX_RETRIES,
+          delayMs,
+          error: error as ServiceError,
+        });
+        await sleep(delayMs, signal);
+      }
+    }
+  }
+
+  /**
+   * Build the error for a non-2xx response from its problem details
+   */
+  function createResponseError(response: Response, data: unknown, action: string, requestId: string): ServiceError {
+    const problem = parseProblemDetails(data);
+    const retryAfterMs = response.status === 429
+      ? parseRetryAfter(response.headers.get('Retry-After'))
+      : undefined;
+
+    let message = problem?.detail || problem?.title || `Failed to ${action}: ${response.statusText}`;
+    if (response.status === 429) {
+      message = retryAfterMs !== undefined
+        ? `Too many requests. Please slow down and try again in ${Math.ceil(retryAfterMs / 1000)}s.`
+        : 'Too many requests. Please slow down and try again shortly.';
+    }
+
+    return new ErrorClass({
+      kind: getErrorKindForStatus(response.status),
+      message,
+      service,
+      status: response.status,
+      problem,
+      response: data,
+      retryAfterMs,
+      requestId,
+    });
+  }
+
+  /**
+   * Check a successful response body against the call's schema
+   */
+  function validateResponse<T>(
+    url: string,
+    data: unknown,
+    action: string,
+    requestId: string,
+    schema?: ZodType<T>
+  ): T {
+    if (!schema) {
+      return data as T;
+    }
+
+    const result = schema.safeParse(data);
+    if (result.success) {
+      return result.data;
+    }
+
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`
+    );
+    reportContractViolation({
+      service,
+      action,
+      url,
+      issues,
+      payload: data,
+      timestamp: new Date().toISOString(),
+    });
+
+    throw new ErrorClass({
+      kind: 'contract-violation',
+      message: `Unexpected response from ${service} while trying to ${action}: ${issues[0]}`,
+      service,
+      response: data,
+      issues,
+      requestId,
+    });
+  }
+
+  async function attemptRequest<T>(url: string, options: RequestOptions<T>, trace: RequestTrace): Promise<T> {
+    const { method = 'GET', body, headers, authenticated = true, action, operation, signal, schema } = options;
+    const timeoutMs = options.timeoutMs ?? getDefaultTimeout(method);
+
+    // One controller per call: aborted by the caller's signal or by the timeout
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const abortFromCaller = () => controller.abort();
+
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', abortFromCaller);
+    }
+
+    try {
+      const requestHeaders: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, application/problem+json',
+        'X-Request-ID': trace.requestId,
+        ...headers,
+      };
+
+      if (authenticated) {
+        // Amplify hands back no token at all, rather than a stale one, once the
+        // refresh token has expired: try a refresh before giving up on the session
+        const accessToken = await getAccessToken() || await refreshAccessToken();
+
+        if (!accessToken) {
+          notifySessionExpired();
+          throw new ErrorClass({
+            kind: 'auth',
+            message: 'No access token available. Please sign in again.',
+            service,
+            status: 401,
+          });
+        }
+
+        requestHeaders['Authorization'] = `Bearer ${accessToken}`;
+      }
+
+      const send = async () => {
+        // Queue behind the client-side limit, or reject before the call leaves the client
+        const delay = reserveRequestSlot(service);
+
+        if (delay === null) {
+          throw new ErrorClass({
+            kind: 'rate-limited',
+            message: 'Too many requests. Please slow down and try again in a few seconds.',
+            service,
+          });
+        }
+
+        if (delay > 0) {
+          await sleep(delay, controller.signal);
+        }
+
+        if (!allowRequest(service)) {
+          throw new ErrorClass({
+            kind: 'unavailable',
+            message: `${SERVICE_LABELS[service]} is temporarily unavailable. It will be restored automatically once the service recovers.`,
+            service,
+          });
+        }
+
+        // Any answer below 500 means the service is up, even if it rejected the request
+        trace.sent = true;
+        const sentAt = performance.now();
+        try {
+          const sent = await getFetch()(url, {
+            method,
+            headers: requestHeaders,
+            body: body === undefined ? undefined : JSON.stringify(body),
+            signal: controller.signal,
+          });
+
+          trace.status = sent.status;
+          recordApiCall({ service, method, operation, durationMs: performance.now() - sentAt, status: sent.status });
+          if (sent.status >= 500) {
+            recordFailure(service);
+          } else {
+            recordSuccess(service);
+          }
+          return sent;
+        } catch (error) {
+          if (isAbortError(error) && !timedOut) {
+            releaseTrial(service);
+          } else {
+            recordApiCall({ service, method, operation, durationMs: performance.now() - sentAt });
+            recordFailure(service);
+          }
+          throw error;
+        }
+      };
+
+      let response = await send();
+
+      // Access token expired mid-session: refresh it and retry once
+      if (authenticated && response.status === 401) {
+        const refreshedToken = await refreshAccessToken();
+
+        if (!refreshedToken) {
+          notifySessionExpired();
+          throw new ErrorClass({
+            kind: 'auth',
+            message: 'Your session has expired. Please sign in again.',
+            service,
+            status: 401,
+            requestId: trace.requestId,
+          });
+        }
+
+        requestHeaders['Authorization'] = `Bearer ${refreshedToken}`;
+        response = await send();
+      }
+
+      // Parses application/json and application/problem+json alike
+      const data = await parseResponseBody(response);
+
+      if (!response.ok) {
+        const error = createResponseError(response, data, action, trace.requestId);
+
+        // Hold further calls to this service until Kong's window resets
+        if (error.retryAfterMs !== undefined) {
+          pauseService(service, error.retryAfterMs);
+        }
+
+        throw error;
+      }
+
+      return validateResponse(url, data, action, trace.requestId, schema);
+    } catch (error) {
+      if (error instanceof ErrorClass) {
+        throw error;
+      }
+
+      if (timedOut) {
+        throw new ErrorClass({
+          kind: 'network',
+          message: `Request timed out after ${Math.round(timeoutMs / 1000)}s while trying to ${action}`,
+          service,
+          response: error,
+          timedOut: true,
+          requestId: trace.sent ? trace.requestId : undefined,
+        });
+      }
+
+      // Cancelled by the caller: rethrow as-is so callers can ignore it
+      if (isAbortError(error)) {
+        throw error;
+      }
+
+      // Network or other errors
+      throw new ErrorClass({
+        kind: 'network',
+        message: `Network error while trying to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        service,
+        response: error,
+        requestId: trace.sent ? trace.requestId : undefined,
+      });
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+
+  return {
+    service,
+    request,
+  };
+}
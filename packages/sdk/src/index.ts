@@ -0,0 +1,32 @@
+// BidderGod SDK
+// Typed clients for the BidderGod services behind the Kong gateway, plus the SSE stream
+// Call configureSdk() once before the first request
+
+export * from './config';
+export * from './constants';
+export * from './errors';
+export * from './httpClient';
+export * from './rateLimiter';
+export * from './circuitBreaker';
+export * from './requestLog';
+export * from './metrics';
+export * from './contractViolations';
+export * from './queryCache';
+export * from './bidAttempts';
+export * from './sseClient';
+export * from './types/auction';
+export * from './auctionImages';
+export * from './auctionLifecycle';
+export * from './money';
+
+export * from './auctionService';
+export * from './biddingService';
+export * from './paymentService';
+export * from './userService';
+
+// Operation functions generated from the OpenAPI specs, for calls the service modules don't wrap
+export * as userApi from './generated/userApi';
+export * as auctionApi from './generated/auctionApi';
+export * as bidCommandApi from './generated/bidCommandApi';
+export * as bidQueryApi from './generated/bidQueryApi';
+export * as paymentApi from './generated/paymentApi';
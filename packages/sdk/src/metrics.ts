@@ -0,0 +1,290 @@
+// Client Metrics
+// Latency and error rates of every service call and the SSE stream, as seen from the
+// client, handed to pluggable exporters (console, HTTP collector) on an interval
+
+import { METRICS, type ServiceName } from './constants';
+import { getFetch } from './config';
+
+export interface EndpointMetrics {
+  service: ServiceName;
+  method: string;
+  /** Spec operationId (e.g. 'placeBid'), the same for every ID in the URL */
+  operation: string;
+  count: number;
+  /** No response: offline, CORS, timeout */
+  networkErrors: number;
+  /** 5xx responses */
+  serverErrors: number;
+  /** 4xx responses, mostly the user's request being rejected */
+  clientErrors: number;
+  /** (networkErrors + serverErrors) / count */
+  errorRate: number;
+  p50Ms: number;
+  p95Ms: number;
+  p99Ms: number;
+  maxMs: number;
+}
+
+export interface StreamMetrics {
+  connects: number;
+  reconnects: number;
+  errors: number;
+  events: number;
+  /** Receive time minus SSEEvent.timestamp; includes clock skew between server and client */
+  lagP50Ms: number;
+  lagP95Ms: number;
+  lagMaxMs: number;
+}
+
+export interface MetricsSnapshot {
+  /** Counters run from page load */
+  since: string;
+  collectedAt: string;
+  endpoints: EndpointMetrics[];
+  stream: StreamMetrics;
+}
+
+/**
+ * Receives a snapshot on every export
+ * Exporters must not call the service modules, or they would record themselves
+ */
+export interface MetricsExporter {
+  name: string;
+  export(snapshot: MetricsSnapshot): void | Promise<void>;
+}
+
+interface EndpointRecord {
+  service: ServiceName;
+  method: string;
+  operation: string;
+  count: number;
+  networkErrors: number;
+  serverErrors: number;
+  clientErrors: number;
+  maxMs: number;
+  /** Most recent durations, at most METRICS.SAMPLE_WINDOW */
+  samples: number[];
+}
+
+const since = new Date().toISOString();
+const endpoints = new Map<string, EndpointRecord>();
+const stream = { connects: 0, reconnects: 0, errors: 0, events: 0, maxLagMs: 0, lagSamples: [] as number[] };
+const exporters = new Set<MetricsExporter>();
+
+// Bumped on every recording, so unchanged snapshots aren't exported again
+let version = 0;
+let exportedVersion = 0;
+let exportTimer: ReturnType<typeof setInterval> | undefined;
+
+function pushSample(samples: number[], value: number): void {
+  samples.push(value);
+  if (samples.length > METRICS.SAMPLE_WINDOW) {
+    samples.shift();
+  }
+}
+
+/**
+ * Nearest-rank percentile, 0 when there are no samples
+ */
+function percentile(samples: number[], p: number): number {
+  if (samples.length === 0) {
+    return 0;
+  }
+  const sorted = [...samples].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/**
+ * Record one HTTP attempt; status is undefined when no response arrived
+ */
+export function recordApiCall(call: {
+  service: ServiceName;
+  method: string;
+  operation: string;
+  durationMs: number;
+  status?: number;
+}): void {
+  const key = `${call.service} ${call.method} ${call.operation}`;
+  let record = endpoints.get(key);
+  if (!record) {
+    record = {
+      service: call.service,
+      method: call.method,
+      operation: call.operation,
+      count: 0,
+      networkErrors: 0,
+      serverErrors: 0,
+      clientErrors: 0,
+      maxMs: 0,
+      samples: [],
+    };
+    endpoints.set(key, record);
+  }
+
+  record.count += 1;
+  if (call.status === undefined) {
+    record.networkErrors += 1;
+  } else if (call.status >= 500) {
+    record.serverErrors += 1;
+  } else if (call.status >= 400) {
+    record.clientErrors += 1;
+  }
+  record.maxMs = Math.max(record.maxMs, call.durationMs);
+  pushSample(record.samples, call.durationMs);
+  version += 1;
+}
+
+/**
+ * Record an SSE connection opening
+ */
+export function recordStreamConnect(isReconnect: boolean): void {
+  stream.connects += 1;
+  if (isReconnect) {
+    stream.reconnects += 1;
+  }
+  version += 1;
+}
+
+/**
+ * Record an SSE connection error
+ */
+export function recordStreamError(): void {
+  stream.errors += 1;
+  version += 1;
+}
+
+/**
+ * Record an SSE event and its lag from the server timestamp
+ */
+export function recordStreamEvent(timestamp: string): void {
+  stream.events += 1;
+  const sentAt = Date.parse(timestamp);
+  if (!Number.isNaN(sentAt)) {
+    const lagMs = Math.max(0, Date.now() - sentAt);
+    stream.maxLagMs = Math.max(stream.maxLagMs, lagMs);
+    pushSample(stream.lagSamples, lagMs);
+  }
+  version += 1;
+}
+
+/**
+ * Current metrics, slowest endpoints (by p95) first
+ */
+export function getMetricsSnapshot(): MetricsSnapshot {
+  return {
+    since,
+    collectedAt: new Date().toISOString(),
+    endpoints: [...endpoints.values()]
+      .map((record) => ({
+        service: record.service,
+        method: record.method,
+        operation: record.operation,
+        count: record.count,
+        networkErrors: record.networkErrors,
+        serverErrors: record.serverErrors,
+        clientErrors: record.clientErrors,
+        errorRate: (record.networkErrors + record.serverErrors) / record.count,
+        p50Ms: percentile(record.samples, 50),
+        p95Ms: percentile(record.samples, 95),
+        p99Ms: percentile(record.samples, 99),
+        maxMs: record.maxMs,
+      }))
+      .sort((a, b) => b.p95Ms - a.p95Ms),
+    stream: {
+      connects: stream.connects,
+      reconnects: stream.reconnects,
+      errors: stream.errors,
+      events: stream.events,
+      lagP50Ms: percentile(stream.lagSamples, 50),
+      lagP95Ms: percentile(stream.lagSamples, 95),
+      lagMaxMs: stream.maxLagMs,
+    },
+  };
+}
+
+/**
+ * Add an exporter; returns a function that removes it
+ */
+export function addMetricsExporter(exporter: MetricsExporter): () => void {
+  exporters.add(exporter);
+  return () => {
+    exporters.delete(exporter);
+  };
+}
+
+/**
+ * Hand the current snapshot to every exporter
+ * Skipped when nothing was recorded since the last export, unless forced
+ */
+export async function flushMetrics(force = false): Promise<void> {
+  if (exporters.size === 0 || (!force && version === exportedVersion)) {
+    return;
+  }
+
+  exportedVersion = version;
+  const snapshot = getMetricsSnapshot();
+  await Promise.all([...exporters].map(async (exporter) => {
+    try {
+      await exporter.export(snapshot);
+    } catch (error) {
+      console.warn(`[metrics] Exporter "${exporter.name}" failed:`, error);
+    }
+  }));
+}
+
+/**
+ * Export every METRICS.EXPORT_INTERVAL until the returned stop function is called
+ * Hosts flush once more on shutdown (pagehide in browsers, exit in scripts)
+ */
+export function startMetricsExport(): () => void {
+  exportTimer ??= setInterval(() => {
+    flushMetrics();
+  }, METRICS.EXPORT_INTERVAL);
+
+  return () => {
+    clearInterval(exportTimer);
+    exportTimer = undefined;
+  };
+}
+
+/**
+ * Logs each snapshot as tables in the console
+ */
+export const consoleMetricsExporter: MetricsExporter = {
+  name: 'console',
+  export(snapshot) {
+    console.groupCollapsed(`[metrics] ${snapshot.endpoints.length} endpoints, ${snapshot.stream.events} SSE events since ${snapshot.since}`);
+    console.table(snapshot.endpoints.map(({ service, method, operation, count, errorRate, p50Ms, p95Ms, p99Ms }) => ({
+      service,
+      endpoint: `${method} ${operation}`,
+      count,
+      errorRate: `${(errorRate * 100).toFixed(1)}%`,
+      p50Ms,
+      p95Ms,
+      p99Ms,
+    })));
+    console.table(snapshot.stream);
+    console.groupEnd();
+  },
+};
+
+/**
+ * POSTs each snapshot as JSON to a collector endpoint
+ * keepalive lets the final export on pagehide finish after the page is gone
+ */
+export function createHttpMetricsExporter(url: string): MetricsExporter {
+  return {
+    name: 'http',
+    async export(snapshot) {
+      const response = await getFetch()(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(snapshot),
+        keepalive: true,
+      });
+      if (!response.ok) {
+        throw new Error(`Collector answered ${response.status}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addMoney,
+  compareMoney,
+  formatMoney,
+  getAuctionCurrency,
+  getCurrencyDigits,
+  getCurrencySymbol,
+  isCurrencyCode,
+  moneyFromMajor,
+  moneyFromMinor,
+  parseMoney,
+  subtractMoney,
+  toDecimalString,
+  toMajorUnits,
+} from './money';
+
+describe('getCurrencyDigits', () => {
+  it('knows the minor units of 2-, 0- and 3-decimal currencies', () => {
+    expect(getCurrencyDigits('USD')).toBe(2);
+    expect(getCurrencyDigits('jpy')).toBe(0);
+    expect(getCurrencyDigits('KWD')).toBe(3);
+  });
+});
+
+describe('parseMoney', () => {
+  it('reads decimal strings into minor units', () => {
+    expect(parseMoney('21.5', 'USD')).toEqual({ amount: 2150, currency: 'USD' });
+    expect(parseMoney(' .99 ', 'usd')).toEqual({ amount: 99, currency: 'USD' });
+    expect(parseMoney('12.', 'USD')).toEqual({ amount: 1200, currency: 'USD' });
+  });
+
+  it('rounds digits beyond the precision half away from zero', () => {
+    expect(parseMoney('1.005', 'USD')?.amount).toBe(101);
+    expect(parseMoney('1.004', 'USD')?.amount).toBe(100);
+    expect(parseMoney('-1.005', 'USD')?.amount).toBe(-101);
+    expect(parseMoney('-0.004', 'USD')?.amount).toBe(0);
+  });
+
+  it('uses the precision of the currency', () => {
+    expect(parseMoney('1200.5', 'JPY')).toEqual({ amount: 1201, currency: 'JPY' });
+    expect(parseMoney('1.2345', 'KWD')).toEqual({ amount: 1235, currency: 'KWD' });
+    expect(parseMoney('1.2', 'KWD')?.amount).toBe(1200);
+  });
+
+  it('returns undefined for anything that is not a number', () => {
+    expect(parseMoney('', 'USD')).toBeUndefined();
+    expect(parseMoney('.', 'USD')).toBeUndefined();
+    expect(parseMoney('$12', 'USD')).toBeUndefined();
+    expect(parseMoney('1,200', 'USD')).toBeUndefined();
+    expect(parseMoney('1e3', 'USD')).toBeUndefined();
+    expect(parseMoney('9'.repeat(20), 'USD')).toBeUndefined();
+  });
+});
+
+describe('moneyFromMajor', () => {
+  it('converts through the shortest decimal form', () => {
+    expect(moneyFromMajor(0.1 + 0.2, 'USD').amount).toBe(30);
+    expect(moneyFromMajor(1.005, 'USD').amount).toBe(101);
+    expect(moneyFromMajor(19.99, 'USD').amount).toBe(1999);
+  });
+
+  it('handles 0- and 3-decimal currencies', () => {
+    expect(moneyFromMajor(1200, 'JPY')).toEqual({ amount: 1200, currency: 'JPY' });
+    expect(moneyFromMajor(1.2345, 'KWD')).toEqual({ amount: 1235, currency: 'KWD' });
+  });
+
+  it('falls back to scaling for numbers printed in exponent form', () => {
+    expect(moneyFromMajor(1e-7, 'USD').amount).toBe(0);
+    expect(moneyFromMajor(2.5e-7, 'KWD').amount).toBe(0);
+  });
+
+  it('rejects values that are not finite or too large for whole minor units', () => {
+    expect(() => moneyFromMajor(NaN, 'USD')).toThrow(RangeError);
+    expect(() => moneyFromMajor(Infinity, 'USD')).toThrow(RangeError);
+    expect(() => moneyFromMajor(1e21, 'JPY')).toThrow(RangeError);
+  });
+});
+
+describe('moneyFromMinor', () => {
+  it('accepts whole minor units only', () => {
+    expect(moneyFromMinor(2150, 'eur')).toEqual({ amount: 2150, currency: 'EUR' });
+    expect(() => moneyFromMinor(21.5, 'EUR')).toThrow(RangeError);
+  });
+});
+
+describe('toMajorUnits and toDecimalString', () => {
+  it('round-trip 2-, 0- and 3-decimal amounts', () => {
+    expect(toMajorUnits({ amount: 2150, currency: 'USD' })).toBe(21.5);
+    expect(toDecimalString({ amount: 2150, currency: 'USD' })).toBe('21.50');
+    expect(toDecimalString({ amount: 5, currency: 'USD' })).toBe('0.05');
+    expect(toDecimalString({ amount: -5, currency: 'USD' })).toBe('-0.05');
+    expect(toDecimalString({ amount: 1200, currency: 'JPY' })).toBe('1200');
+    expect(toDecimalString({ amount: 1235, currency: 'KWD' })).toBe('1.235');
+    expect(toMajorUnits({ amount: 1235, currency: 'KWD' })).toBe(1.235);
+  });
+});
+
+describe('arithmetic', () => {
+  const usd = (amount: number) => moneyFromMinor(amount, 'USD');
+
+  it('adds, subtracts and compares exactly', () => {
+    expect(addMoney(usd(10), usd(20))).toEqual(usd(30));
+    expect(subtractMoney(usd(10), usd(20))).toEqual(usd(-10));
+    expect(compareMoney(usd(10), usd(20))).toBeLessThan(0);
+    expect(compareMoney(usd(20), usd(20))).toBe(0);
+  });
+
+  it('refuses to combine different currencies', () => {
+    const eur = moneyFromMinor(10, 'EUR');
+    expect(() => addMoney(usd(10), eur)).toThrow(RangeError);
+    expect(() => subtractMoney(usd(10), eur)).toThrow(RangeError);
+    expect(() => compareMoney(usd(10), eur)).toThrow(RangeError);
+  });
+});
+
+describe('formatMoney', () => {
+  it('formats by locale and currency', () => {
+    expect(formatMoney({ amount: 120050, currency: 'USD' }, { locale: 'en-US' })).toBe('$1,200.50');
+    expect(formatMoney({ amount: 120050, currency: 'EUR' }, { locale: 'de-DE' })).toBe('1.200,50 €');
+    expect(formatMoney({ amount: 1200, currency: 'JPY' }, { locale: 'en-US' })).toBe('¥1,200');
+    expect(formatMoney({ amount: 1235, currency: 'KWD' }, { locale: 'en-US' })).toBe('KWD 1.235');
+  });
+
+  it('can leave out the minor units of whole amounts', () => {
+    const options = { locale: 'en-US', omitZeroFraction: true };
+    expect(formatMoney({ amount: 120000, currency: 'USD' }, options)).toBe('$1,200');
+    expect(formatMoney({ amount: 120050, currency: 'USD' }, options)).toBe('$1,200.50');
+  });
+});
+
+describe('currency helpers', () => {
+  it('looks up symbols per locale', () => {
+    expect(getCurrencySymbol('usd', 'en-US')).toBe('$');
+    expect(getCurrencySymbol('EUR', 'en-US')).toBe('€');
+    expect(getCurrencySymbol('CAD', 'en-US')).toBe('CA$');
+  });
+
+  it('defaults auctions without a currency to USD', () => {
+    expect(getAuctionCurrency({})).toBe('USD');
+    expect(getAuctionCurrency({ currency: 'jpy' })).toBe('JPY');
+  });
+
+  it('falls back to USD instead of throwing for malformed codes', () => {
+    expect(isCurrencyCode('EUR')).toBe(true);
+    expect(isCurrencyCode('dollars')).toBe(false);
+    expect(getAuctionCurrency({ currency: 'dollars' })).toBe('USD');
+    expect(getCurrencyDigits('€')).toBe(2);
+    expect(formatMoney({ amount: 1200, currency: 'dollars' }, { locale: 'en-US' })).toBe('$12.00');
+  });
+});
@@ -0,0 +1,189 @@
+// Money
+// Amounts as whole minor units (cents for USD, yen for JPY) plus an ISO 4217 currency,
+// so arithmetic and comparisons are exact integer operations
+// Auction and bid prices are decimal numbers in major units on the wire; convert them with
+// moneyFromMajor on the way in and toMajorUnits on the way out
+
+import type { Auction } from './generated/auctionApi';
+
+export interface Money {
+  /** Whole minor units of the currency */
+  amount: number;
+  /** ISO 4217 code, upper case */
+  currency: string;
+}
+
+/**
+ * Currency of auctions that don't report one
+ */
+export const DEFAULT_CURRENCY = 'USD';
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?$/;
+const CURRENCY_CODE_PATTERN = /^[A-Za-z]{3}$/;
+
+const currencyDigits = new Map<string, number>();
+const formatters = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Whether a value is shaped like an ISO 4217 code, the only currencies Intl accepts
+ */
+export function isCurrencyCode(value: string): boolean {
+  return CURRENCY_CODE_PATTERN.test(value);
+}
+
+/**
+ * Upper-case ISO 4217 code, DEFAULT_CURRENCY when missing or malformed
+ * Response schemas reject malformed codes; this keeps anything that slips through from
+ * making Intl throw while rendering
+ */
+export function normalizeCurrency(currency: string | null | undefined): string {
+  return currency && isCurrencyCode(currency) ? currency.toUpperCase() : DEFAULT_CURRENCY;
+}
+
+/**
+ * Number of minor-unit digits of a currency (2 for USD, 0 for JPY, 3 for KWD)
+ */
+export function getCurrencyDigits(currency: string): number {
+  const code = normalizeCurrency(currency);
+  let digits = currencyDigits.get(code);
+  if (digits === undefined) {
+    digits = new Intl.NumberFormat('en', { style: 'currency', currency: code }).resolvedOptions().maximumFractionDigits ?? 2;
+    currencyDigits.set(code, digits);
+  }
+  return digits;
+}
+
+/**
+ * Money from whole minor units
+ */
+export function moneyFromMinor(amount: number, currency: string): Money {
+  if (!Number.isSafeInteger(amount)) {
+    throw new RangeError(`Money amounts must be whole minor units, got ${amount}`);
+  }
+  return { amount, currency: normalizeCurrency(currency) };
+}
+
+/**
+ * Money from a decimal string such as "21.5" or user input, undefined when it isn't a number
+ * Digits beyond the currency's precision are rounded half away from zero
+ */
+export function parseMoney(input: string, currency: string): Money | undefined {
+  const match = DECIMAL_PATTERN.exec(input.trim());
+  if (!match || (!match[2] && !match[3])) {
+    return undefined;
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const digits = getCurrencyDigits(currency);
+  const padded = fraction.padEnd(digits + 1, '0');
+  let minor = Number(`${whole || '0'}${padded.slice(0, digits)}`);
+  if (Number(padded[digits]) >= 5) {
+    minor += 1;
+  }
+  if (!Number.isSafeInteger(minor)) {
+    return undefined;
+  }
+  return { amount: sign === '-' && minor !== 0 ? -minor : minor, currency: normalizeCurrency(currency) };
+}
+
+/**
+ * Money from a major-unit number as sent on the wire
+ * Goes through the number's shortest decimal form, so 0.1 + 0.2 becomes 30 cents rather
+ * than whatever multiplying by 100 happens to produce
+ */
+export function moneyFromMajor(value: number, currency: string): Money {
+  if (!Number.isFinite(value)) {
+    throw new RangeError(`Money amounts must be finite, got ${value}`);
+  }
+  const decimal = String(value);
+  const parsed = /e/i.test(decimal) ? undefined : parseMoney(decimal, currency);
+  return parsed ?? moneyFromMinor(Math.round(value * 10 ** getCurrencyDigits(currency)), currency);
+}
+
+/**
+ * Major-unit number for the wire (2150 cents becomes 21.5)
+ */
+export function toMajorUnits(money: Money): number {
+  return money.amount / 10 ** getCurrencyDigits(money.currency);
+}
+
+/**
+ * Exact decimal string without grouping or symbol, for form inputs ("21.50")
+ */
+export function toDecimalString(money: Money): string {
+  const digits = getCurrencyDigits(money.currency);
+  const units = String(Math.abs(money.amount)).padStart(digits + 1, '0');
+  const whole = units.slice(0, units.length - digits);
+  const sign = money.amount < 0 ? '-' : '';
+  return digits > 0 ? `${sign}${whole}.${units.slice(units.length - digits)}` : `${sign}${whole}`;
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new RangeError(`Cannot combine ${a.currency} and ${b.currency} amounts`);
+  }
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { amount: a.amount + b.amount, currency: a.currency };
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { amount: a.amount - b.amount, currency: a.currency };
+}
+
+/**
+ * Negative when a is less than b, 0 when equal, positive when greater
+ */
+export function compareMoney(a: Money, b: Money): number {
+  assertSameCurrency(a, b);
+  return a.amount - b.amount;
+}
+
+export interface FormatMoneyOptions {
+  /** BCP 47 locale (default: the runtime's) */
+  locale?: string;
+  /** Leave out the minor units of a whole amount ("$1,200" instead of "$1,200.00") */
+  omitZeroFraction?: boolean;
+}
+
+function getFormatter(currency: string, locale: string | undefined, fractionDigits: number): Intl.NumberFormat {
+  const key = `${locale ?? ''}|${currency}|${fractionDigits}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Amount with currency symbol, grouped and placed by locale ("$1,200.00", "1.200,00 €", "¥1,200")
+ */
+export function formatMoney(money: Money, { locale, omitZeroFraction = false }: FormatMoneyOptions = {}): string {
+  const digits = getCurrencyDigits(money.currency);
+  const fractionDigits = omitZeroFraction && money.amount % 10 ** digits === 0 ? 0 : digits;
+  return getFormatter(normalizeCurrency(money.currency), locale, fractionDigits).format(toMajorUnits(money));
+}
+
+/**
+ * The symbol a locale shows for a currency ("$", "€", "CA$")
+ */
+export function getCurrencySymbol(currency: string, locale?: string): string {
+  const code = normalizeCurrency(currency);
+  return getFormatter(code, locale, 0).formatToParts(0).find((part) => part.type === 'currency')?.value ?? code;
+}
+
+/**
+ * Currency an auction is priced in
+ */
+export function getAuctionCurrency(auction: Pick<Auction, 'currency'>): string {
+  return normalizeCurrency(auction.currency);
+}
@@ -0,0 +1,105 @@
+// Payment Service API Client
+// Handles communication with the payment service (NestJS + Stripe)
+
+import { z } from 'zod';
+import { createServiceClient, type CallOptions } from './httpClient';
+import { PaymentServiceError } from './errors';
+import { isCurrencyCode, moneyFromMinor, type Money } from './money';
+import * as paymentApi from './generated/paymentApi';
+import type { CreatePaymentIntentRequest, PaymentConfirmation, PaymentIntent } from './generated/paymentApi';
+
+// Request/Response types, generated from the payment service OpenAPI spec
+export type {
+  ConfirmPaymentRequest,
+  CreatePaymentIntentRequest,
+  PaymentConfirmation,
+  PaymentIntent,
+} from './generated/paymentApi';
+
+export const PaymentIntentSchema: z.ZodType<PaymentIntent> = z.object({
+  id: z.string(),
+  amount: z.number(),
+  currency: z.string().refine(isCurrencyCode, 'Expected an ISO 4217 currency code'),
+  status: z.string(),
+  clientSecret: z.string(),
+  customerId: z.string().optional(),
+  metadata: z.record(z.string()).optional(),
+  createdAt: z.string(),
+});
+
+export const PaymentConfirmationSchema: z.ZodType<PaymentConfirmation> = z.object({
+  id: z.string(),
+  status: z.enum(['succeeded', 'processing', 'requires_payment_method', 'failed']),
+  amount: z.number(),
+  currency: z.string().refine(isCurrencyCode, 'Expected an ISO 4217 currency code'),
+});
+
+const client = createServiceClient('PAYMENT_SERVICE', PaymentServiceError);
+
+/**
+ * Create a payment intent for auction payment
+ */
+export async function createPaymentIntent(
+  auctionId: string,
+  amount: Money,
+  sellerId: string,
+  options: CallOptions = {}
+): Promise<PaymentIntent> {
+  const body: CreatePaymentIntentRequest = {
+    // Stripe takes the smallest currency unit and lower-case currency codes
+    amount: amount.amount,
+    currency: amount.currency.toLowerCase(),
+    metadata: {
+      auctionId,
+      sellerId,
+      timestamp: new Date().toISOString(),
+    },
+  };
+
+  return paymentApi.createPaymentIntent(client, { body }, {
+    schema: PaymentIntentSchema,
+    ...options,
+  });
+}
+
+/**
+ * Get payment intent details
+ */
+export async function getPaymentIntent(
+  paymentIntentId: string,
+  options: CallOptions = {}
+): Promise<PaymentIntent> {
+  return paymentApi.getPaymentIntent(client, { path: { id: paymentIntentId } }, {
+    schema: PaymentIntentSchema,
+    ...options,
+  });
+}
+
+/**
+ * Confirm payment with payment method
+ */
+export async function confirmPayment(
+  paymentIntentId: string,
+  paymentMethodId: string,
+  options: CallOptions = {}
+): Promise<PaymentConfirmation> {
+  return paymentApi.confirmPaymentIntent(client, { path: { id: paymentIntentId }, body: { paymentMethodId } }, {
+    schema: PaymentConfirmationSchema,
+    ...options,
+  });
+}
+
+/**
+ * Amount of a payment intent or confirmation
+ */
+export function getPaymentAmount(payment: Pick<PaymentIntent, 'amount' | 'currency'>): Money {
+  return moneyFromMinor(payment.amount, payment.currency);
+}
+
+export const paymentService = {
+  createPaymentIntent,
+  getPaymentIntent,
+  confirmPayment,
+};
+
+export default paymentService;
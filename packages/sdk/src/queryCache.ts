@@ -0,0 +1,182 @@
+// Query Cache
+// Shared stale-while-revalidate cache for read queries, keyed per query
+// Concurrent fetches of the same key share one request, which is aborted once the
+// last subscriber of its key has gone (unmount, or the key changed)
+
+import { CACHE_POLICY } from './constants';
+import { isAbortError, type CallOptions, type RetryProgress } from './httpClient';
+
+export type QueryFetcher<T> = (options: CallOptions) => Promise<T>;
+
+/**
+ * Snapshot of one query, replaced (never mutated) on every change
+ */
+export interface QueryState<T> {
+  data?: T;
+  /** Last fetch failure; cleared by the next successful fetch */
+  error?: Error;
+  /** When data was last fetched, 0 when missing or invalidated */
+  updatedAt: number;
+  isFetching: boolean;
+  /** Set while the current fetch is retrying */
+  retryProgress: RetryProgress | null;
+}
+
+interface CacheEntry {
+  state: QueryState<unknown>;
+  fetcher?: QueryFetcher<unknown>;
+  inFlight?: Promise<unknown>;
+  /** Aborts the request in flight */
+  controller?: AbortController;
+  /** Forced refetch waiting for the current request to finish */
+  queued?: Promise<unknown>;
+  listeners: Set<() => void>;
+}
+
+const EMPTY_STATE: QueryState<never> = { updatedAt: 0, isFetching: false, retryProgress: null };
+
+const entries = new Map<string, CacheEntry>();
+
+function getEntry(key: string): CacheEntry {
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = { state: EMPTY_STATE, listeners: new Set() };
+    entries.set(key, entry);
+  }
+  return entry;
+}
+
+function setState(entry: CacheEntry, changes: Partial<QueryState<unknown>>): void {
+  entry.state = { ...entry.state, ...changes };
+  entry.listeners.forEach((listener) => listener());
+}
+
+/**
+ * Current snapshot of a query
+ */
+export function getQueryState<T>(key: string): QueryState<T> {
+  return (entries.get(key)?.state ?? EMPTY_STATE) as QueryState<T>;
+}
+
+/**
+ * True when the query has no data or its data is older than CACHE_POLICY.STALE_TIME
+ */
+export function isQueryStale(key: string): boolean {
+  const { updatedAt } = getQueryState(key);
+  return Date.now() - updatedAt > CACHE_POLICY.STALE_TIME;
+}
+
+/**
+ * Fetch a query, joining the in-flight request if there is one
+ * Fresh data is returned without a request unless `force` is set
+ */
+export function fetchQuery<T>(key: string, fetcher: QueryFetcher<T>, force = false): Promise<T> {
+  const entry = getEntry(key);
+  entry.fetcher = fetcher as QueryFetcher<unknown>;
+
+  // An aborted request is still settling; start over instead of joining it
+  if (entry.inFlight && !entry.controller?.signal.aborted) {
+    if (!force) {
+      return entry.inFlight as Promise<T>;
+    }
+
+    // The response in flight may predate the change that forced this fetch
+    entry.queued ??= entry.inFlight
+      .catch(() => undefined)
+      .then(() => {
+        entry.queued = undefined;
+        return fetchQuery(key, fetcher, true);
+      });
+    return entry.queued as Promise<T>;
+  }
+
+  if (!force && entry.state.data !== undefined && !isQueryStale(key)) {
+    return Promise.resolve(entry.state.data as T);
+  }
+
+  setState(entry, { isFetching: true, retryProgress: null });
+
+  // One signal per request rather than per component: the result is shared, so it is
+  // only cancelled when nobody is subscribed to the key any more
+  const controller = new AbortController();
+  entry.controller = controller;
+  const request = fetcher({
+    signal: controller.signal,
+    onRetry: (retryProgress) => setState(entry, { retryProgress }),
+  })
+    .then((data) => {
+      setState(entry, { data, error: undefined, updatedAt: Date.now() });
+      return data;
+    })
+    .catch((error) => {
+      // A cancelled fetch isn't a failure; the next subscriber fetches again
+      if (!isAbortError(error)) {
+        setState(entry, { error: error instanceof Error ? error : new Error(String(error)) });
+      }
+      throw error;
+    })
+    .finally(() => {
+      if (entry.inFlight === request) {
+        entry.inFlight = undefined;
+        entry.controller = undefined;
+        setState(entry, { isFetching: false, retryProgress: null });
+      }
+    });
+
+  entry.inFlight = request;
+  return request;
+}
+
+/**
+ * Subscribe to changes of one query
+ * Returns an unsubscribe function; the last one to unsubscribe aborts the request in flight
+ */
+export function subscribeQuery(key: string, listener: () => void): () => void {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+    // Deferred so a subscriber that comes straight back (React StrictMode remounts) keeps the request
+    setTimeout(() => {
+      if (entry.listeners.size === 0 && !entry.queued) {
+        entry.controller?.abort();
+      }
+    }, 0);
+  };
+}
+
+/**
+ * Patch cached data in place, e.g. from a live event, without refetching
+ * Does nothing when the query has no data yet
+ */
+export function setQueryData<T>(key: string, update: (data: T) => T): void {
+  const entry = entries.get(key);
+  if (entry?.state.data !== undefined) {
+    setState(entry, { data: update(entry.state.data as T) });
+  }
+}
+
+/**
+ * Keys currently in the cache that start with a prefix
+ */
+export function getQueryKeys(prefix: string): string[] {
+  return [...entries.keys()].filter((key) => key.startsWith(prefix));
+}
+
+/**
+ * Mark every query under a prefix as stale
+ * Queries that are on screen are refetched in the background right away,
+ * the rest on their next use
+ */
+export function invalidateQueries(prefix: string): void {
+  getQueryKeys(prefix).forEach((key) => {
+    const entry = entries.get(key)!;
+    setState(entry, { updatedAt: 0 });
+
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      fetchQuery(key, entry.fetcher, true).catch(() => {
+        // Failure is recorded in the query state for subscribers to show
+      });
+    }
+  });
+}
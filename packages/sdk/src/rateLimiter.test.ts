@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+type RateLimiter = typeof import('./rateLimiter');
+
+// Buckets live in module state, so every test gets a fresh copy of the module
+let rateLimiter: RateLimiter;
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+  vi.resetModules();
+  rateLimiter = await import('./rateLimiter');
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('reserveRequestSlot', () => {
+  it('sends immediately while the bucket has tokens', () => {
+    // PAYMENT_SERVICE allows 50 requests per minute
+    for (let i = 0; i < 50; i += 1) {
+      expect(rateLimiter.reserveRequestSlot('PAYMENT_SERVICE')).toBe(0);
+    }
+    expect(rateLimiter.getRateLimitRemaining('PAYMENT_SERVICE')).toBe(0);
+  });
+
+  it('queues callers behind earlier reservations, then rejects past the queue limit', () => {
+    for (let i = 0; i < 50; i += 1) {
+      rateLimiter.reserveRequestSlot('PAYMENT_SERVICE');
+    }
+
+    // One token every 1.2 s; waits beyond 5 s are rejected
+    expect(rateLimiter.reserveRequestSlot('PAYMENT_SERVICE')).toBe(1200);
+    expect(rateLimiter.reserveRequestSlot('PAYMENT_SERVICE')).toBe(2400);
+    expect(rateLimiter.reserveRequestSlot('PAYMENT_SERVICE')).toBe(3600);
+    expect(rateLimiter.reserveRequestSlot('PAYMENT_SERVICE')).toBe(4800);
+    expect(rateLimiter.reserveRequestSlot('PAYMENT_SERVICE')).toBeNull();
+  });
+
+  it('refills in proportion to the time elapsed, up to the limit', () => {
+    for (let i = 0; i < 50; i += 1) {
+      rateLimiter.reserveRequestSlot('PAYMENT_SERVICE');
+    }
+
+    vi.advanceTimersByTime(30000);
+    expect(rateLimiter.getRateLimitRemaining('PAYMENT_SERVICE')).toBe(25);
+
+    vi.advanceTimersByTime(120000);
+    expect(rateLimiter.getRateLimitRemaining('PAYMENT_SERVICE')).toBe(50);
+  });
+
+  it('keeps buckets separate per service', () => {
+    for (let i = 0; i < 50; i += 1) {
+      rateLimiter.reserveRequestSlot('PAYMENT_SERVICE');
+    }
+    expect(rateLimiter.reserveRequestSlot('AUCTION_SERVICE')).toBe(0);
+  });
+
+  it('never limits services without a rate limit', () => {
+    for (let i = 0; i < 1000; i += 1) {
+      expect(rateLimiter.reserveRequestSlot('SSE_STREAM')).toBe(0);
+    }
+    expect(rateLimiter.getRateLimitRemaining('SSE_STREAM')).toBe(Infinity);
+  });
+});
+
+describe('pauseService', () => {
+  it('holds every call until the pause has passed', () => {
+    rateLimiter.pauseService('AUCTION_SERVICE', 3000);
+    expect(rateLimiter.getRateLimitWait('AUCTION_SERVICE')).toBe(3000);
+    expect(rateLimiter.getRateLimitRemaining('AUCTION_SERVICE')).toBe(0);
+
+    vi.advanceTimersByTime(3000);
+    expect(rateLimiter.getRateLimitWait('AUCTION_SERVICE')).toBe(0);
+    expect(rateLimiter.reserveRequestSlot('AUCTION_SERVICE')).toBe(0);
+  });
+
+  it('keeps the later of two pauses', () => {
+    rateLimiter.pauseService('AUCTION_SERVICE', 4000);
+    rateLimiter.pauseService('AUCTION_SERVICE', 1000);
+    expect(rateLimiter.getRateLimitWait('AUCTION_SERVICE')).toBe(4000);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delta-seconds', () => {
+    expect(rateLimiter.parseRetryAfter('120')).toBe(120000);
+    expect(rateLimiter.parseRetryAfter(' 1.5 ')).toBe(1500);
+  });
+
+  it('reads an HTTP-date relative to now', () => {
+    expect(rateLimiter.parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT')).toBe(30000);
+    expect(rateLimiter.parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT')).toBe(0);
+  });
+
+  it('treats a missing, blank or unreadable header as absent', () => {
+    expect(rateLimiter.parseRetryAfter(null)).toBeUndefined();
+    expect(rateLimiter.parseRetryAfter('')).toBeUndefined();
+    expect(rateLimiter.parseRetryAfter('   ')).toBeUndefined();
+    expect(rateLimiter.parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('sleep', () => {
+  it('resolves after the wait', async () => {
+    const slept = vi.fn();
+    void rateLimiter.sleep(1000).then(slept);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(slept).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(slept).toHaveBeenCalled();
+  });
+
+  it('rejects with an AbortError when the signal fires first', async () => {
+    const controller = new AbortController();
+    const sleeping = rateLimiter.sleep(1000, controller.signal);
+    controller.abort();
+    await expect(sleeping).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
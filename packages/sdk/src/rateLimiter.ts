@@ -0,0 +1,149 @@
+// Client-side Rate Limiter
+// One token bucket per backend service, sized from RATE_LIMITS (requests per minute)
+// so bursts are queued or rejected in the client instead of hitting Kong 429s
+
+import { RATE_LIMITS, type ServiceName } from './constants';
+
+// Calls that would wait longer than this are rejected instead of queued
+const MAX_QUEUE_WAIT_MS = 5000;
+
+interface Bucket {
+  tokens: number;
+  lastRefill: number;
+  // Set from Retry-After when Kong answers 429
+  blockedUntil: number;
+}
+
+const buckets = new Map<ServiceName, Bucket>();
+
+function getBucket(service: ServiceName): Bucket {
+  let bucket = buckets.get(service);
+  if (!bucket) {
+    bucket = {
+      tokens: RATE_LIMITS[service],
+      lastRefill: Date.now(),
+      blockedUntil: 0,
+    };
+    buckets.set(service, bucket);
+  }
+  return bucket;
+}
+
+function refill(service: ServiceName, bucket: Bucket, now: number): void {
+  const perMinute = RATE_LIMITS[service];
+  const elapsed = now - bucket.lastRefill;
+  bucket.tokens = Math.min(perMinute, bucket.tokens + (elapsed * perMinute) / 60000);
+  bucket.lastRefill = now;
+}
+
+function getWait(service: ServiceName, bucket: Bucket, now: number): number {
+  const perMinute = RATE_LIMITS[service];
+  const tokenWait = bucket.tokens >= 1 ? 0 : ((1 - bucket.tokens) * 60000) / perMinute;
+  return Math.max(tokenWait, bucket.blockedUntil - now, 0);
+}
+
+/**
+ * Reserve a slot for one request
+ * Returns how long to wait before sending (0 = send now),
+ * or null when the wait would exceed MAX_QUEUE_WAIT_MS and the call should be rejected
+ */
+export function reserveRequestSlot(service: ServiceName): number | null {
+  if (!Number.isFinite(RATE_LIMITS[service])) {
+    return 0;
+  }
+
+  const now = Date.now();
+  const bucket = getBucket(service);
+  refill(service, bucket, now);
+
+  const wait = getWait(service, bucket, now);
+  if (wait > MAX_QUEUE_WAIT_MS) {
+    return null;
+  }
+
+  // Tokens may go negative: later callers queue behind earlier reservations
+  bucket.tokens -= 1;
+  return wait;
+}
+
+/**
+ * How long until a request to this service could be sent, in milliseconds
+ */
+export function getRateLimitWait(service: ServiceName): number {
+  if (!Number.isFinite(RATE_LIMITS[service])) {
+    return 0;
+  }
+
+  const now = Date.now();
+  const bucket = getBucket(service);
+  refill(service, bucket, now);
+  return getWait(service, bucket, now);
+}
+
+/**
+ * Requests that could be sent right now without queueing (Infinity when unlimited)
+ */
+export function getRateLimitRemaining(service: ServiceName): number {
+  if (!Number.isFinite(RATE_LIMITS[service])) {
+    return Infinity;
+  }
+
+  const now = Date.now();
+  const bucket = getBucket(service);
+  refill(service, bucket, now);
+  return bucket.blockedUntil > now ? 0 : Math.max(0, Math.floor(bucket.tokens));
+}
+
+/**
+ * Hold every call to a service until the server-provided Retry-After has passed
+ */
+export function pauseService(service: ServiceName, durationMs: number): void {
+  const bucket = getBucket(service);
+  bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + durationMs);
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+ * A missing or blank header is undefined, not a zero wait
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  const seconds = Number(trimmed);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Wait for a queued slot; rejects with an AbortError if the signal fires first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,99 @@
+// Request Log
+// Recent calls with the X-Request-ID each one was sent with, so failures shown in the UI
+// can be found in the backend logs and SSE events can be traced to the request behind them
+
+import type { ServiceName } from './constants';
+import type { SSEEvent } from './sseClient';
+
+export interface RequestLogEntry {
+  /** Sent as X-Request-ID; the same for every retry of one call */
+  requestId: string;
+  service: ServiceName;
+  method: string;
+  url: string;
+  /** What the call was doing (e.g. 'place bid') */
+  action: string;
+  idempotencyKey?: string;
+  startedAt: string;
+  /** Set once the call has finished */
+  durationMs?: number;
+  /** HTTP status of the last response, when there was one */
+  status?: number;
+  /** Failure message, when the call failed */
+  error?: string;
+}
+
+type RequestLogListener = (entry: RequestLogEntry) => void;
+
+// Older entries are dropped once the log is full
+const MAX_ENTRIES = 100;
+
+const entries: RequestLogEntry[] = [];
+const listeners = new Set<RequestLogListener>();
+
+/**
+ * Record a call as it is sent
+ * Logged before the response so events that arrive first can still be linked
+ */
+export function recordRequestStart(entry: Omit<RequestLogEntry, 'startedAt'>): void {
+  entries.push({ ...entry, startedAt: new Date().toISOString() });
+  if (entries.length > MAX_ENTRIES) {
+    entries.shift();
+  }
+}
+
+/**
+ * Record how a call ended and notify subscribers
+ */
+export function recordRequestEnd(requestId: string, result: { status?: number; error?: string }): void {
+  const entry = entries.find((candidate) => candidate.requestId === requestId);
+  if (!entry) {
+    return;
+  }
+
+  Object.assign(entry, result, { durationMs: Date.now() - Date.parse(entry.startedAt) });
+  listeners.forEach((listener) => listener({ ...entry }));
+}
+
+/**
+ * Correlation or causation ID carried by an event, at the top level or inside data
+ */
+export function getEventCorrelationIds(event: SSEEvent): string[] {
+  const data = event.data && typeof event.data === 'object' ? event.data : {};
+  return [event.causationId, event.correlationId, data.causationId, data.correlationId]
+    .filter((id): id is string => typeof id === 'string' && id.length > 0);
+}
+
+/**
+ * The logged call an event was caused by, matched on X-Request-ID or Idempotency-Key
+ */
+export function findRequestForEvent(event: SSEEvent): RequestLogEntry | undefined {
+  const ids = getEventCorrelationIds(event);
+  if (ids.length === 0) {
+    return undefined;
+  }
+
+  const entry = [...entries].reverse().find((candidate) =>
+    ids.includes(candidate.requestId)
+    || (candidate.idempotencyKey !== undefined && ids.includes(candidate.idempotencyKey))
+  );
+  return entry && { ...entry };
+}
+
+/**
+ * Calls logged so far, oldest first
+ */
+export function getRecentRequests(): RequestLogEntry[] {
+  return entries.map((entry) => ({ ...entry }));
+}
+
+/**
+ * Subscribe to finished calls
+ * Returns an unsubscribe function
+ */
+export function onRequestFinished(listener: RequestLogListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
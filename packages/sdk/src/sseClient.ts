@@ -0,0 +1,283 @@
+// SSE Client
+// Authenticated connection to the SSE Stream Service with connect timeout and auto-reconnect
+// Not tied to any UI framework: state changes are reported through onStateChange
+// EventSource can't send headers, so the stream token goes in the ?token= query parameter
+
+import { getEventSource, getGatewayUrl, getSdkConfig } from './config';
+import { SERVICE_TIMEOUTS } from './constants';
+import { recordStreamConnect, recordStreamError, recordStreamEvent } from './metrics';
+
+/**
+ * SSE Event Structure
+ * Matches the format sent by the SSE Stream Service
+ */
+export interface SSEEvent {
+  type: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  data?: any;
+  timestamp: string;
+  userId?: string;
+  message?: string;
+  /** X-Request-ID (or Idempotency-Key) of the request that led to this event, when the backend forwards it */
+  correlationId?: string;
+  causationId?: string;
+}
+
+export interface EventStreamState {
+  isConnected: boolean;
+  /** Why the stream is not connected, null while connected or idle */
+  connectionError: string | null;
+  reconnectAttempts: number;
+}
+
+export interface EventStreamOptions {
+  /** SSE endpoint URL (default: the gateway's /events) */
+  url?: string;
+  /** Event handler callback */
+  onEvent?: (event: SSEEvent) => void;
+  /** Connection opened callback */
+  onOpen?: () => void;
+  /** Error callback, once per lost connection (not for failed retries) */
+  onError?: (error: Event) => void;
+  /** Max retries reached callback */
+  onMaxRetriesReached?: () => void;
+  /** Called with the new state whenever it changes */
+  onStateChange?: (state: EventStreamState) => void;
+  /** Auto-reconnect on error (default: true) */
+  autoReconnect?: boolean;
+  /** Reconnect delay in milliseconds (default: 5000) */
+  reconnectDelay?: number;
+  /** Maximum reconnection attempts (default: 5, set to 0 for unlimited) */
+  maxReconnectAttempts?: number;
+  /** Give up on a connection that hasn't opened after this many ms (default: SERVICE_TIMEOUTS.SSE.CONNECT) */
+  connectTimeout?: number;
+  /** Enable debug logging (default: false) */
+  debug?: boolean;
+}
+
+export interface EventStream {
+  /** Open the connection; resolves once the EventSource is created (not opened) */
+  connect(): Promise<void>;
+  /** Close the connection and stop reconnecting */
+  disconnect(): void;
+  /** Close and connect again with a fresh retry counter */
+  reconnect(): Promise<void>;
+  getState(): EventStreamState;
+}
+
+/**
+ * Token for the stream from the configured token provider
+ */
+async function getStreamToken(): Promise<string | undefined> {
+  const { tokenProvider } = getSdkConfig();
+  return tokenProvider.getStreamToken
+    ? tokenProvider.getStreamToken()
+    : tokenProvider.getAccessToken();
+}
+
+/**
+ * Create a connection to the SSE stream; nothing is sent until connect()
+ *
+ * @example
+ * ```ts
+ * const stream = createEventStream({
+ *   onEvent: (event) => console.log('Received event:', event),
+ * });
+ * await stream.connect();
+ * ```
+ */
+export function createEventStream(options: EventStreamOptions = {}): EventStream {
+  const {
+    onEvent,
+    onOpen,
+    onError,
+    onMaxRetriesReached,
+    onStateChange,
+    autoReconnect = true,
+    reconnectDelay = 5000,
+    maxReconnectAttempts = 5,
+    connectTimeout = SERVICE_TIMEOUTS.SSE.CONNECT,
+    debug = false,
+  } = options;
+
+  let state: EventStreamState = { isConnected: false, connectionError: null, reconnectAttempts: 0 };
+  let eventSource: EventSource | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let connectTimer: ReturnType<typeof setTimeout> | null = null;
+  let isManualDisconnect = false;
+  // Bumped by every connect and disconnect, so a connect still waiting for its token can tell it was superseded
+  let generation = 0;
+
+  const log = (...args: unknown[]) => {
+    if (debug) {
+      console.log('[sse]', ...args);
+    }
+  };
+
+  const setState = (changes: Partial<EventStreamState>) => {
+    state = { ...state, ...changes };
+    onStateChange?.(state);
+  };
+
+  const clearTimers = () => {
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    if (connectTimer) {
+      clearTimeout(connectTimer);
+      connectTimer = null;
+    }
+  };
+
+  const scheduleReconnect = () => {
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      log(`Reconnecting (attempt ${state.reconnectAttempts})...`);
+      open();
+    }, reconnectDelay);
+  };
+
+  const handleError = (error: Event, source: EventSource) => {
+    log('SSE connection error:', error);
+    if (connectTimer) {
+      clearTimeout(connectTimer);
+      connectTimer = null;
+    }
+    recordStreamError();
+
+    source.close();
+    eventSource = null;
+    setState({ isConnected: false });
+
+    // Only once per lost connection, not on every failed retry
+    if (state.reconnectAttempts === 0) {
+      onError?.(error);
+    }
+
+    if (!autoReconnect || isManualDisconnect) {
+      setState({ connectionError: 'SSE connection closed' });
+      return;
+    }
+
+    if (maxReconnectAttempts > 0 && state.reconnectAttempts >= maxReconnectAttempts) {
+      const errorMsg = `Max reconnection attempts (${maxReconnectAttempts}) reached. Please check if the backend service is running.`;
+      log(errorMsg);
+      setState({ connectionError: errorMsg });
+      onMaxRetriesReached?.();
+      return;
+    }
+
+    const reconnectAttempts = state.reconnectAttempts + 1;
+    const errorMsg = `Connection lost. Retry attempt ${reconnectAttempts}${maxReconnectAttempts > 0 ? `/${maxReconnectAttempts}` : ''} in ${reconnectDelay / 1000}s...`;
+    log(errorMsg);
+    setState({ reconnectAttempts, connectionError: errorMsg });
+    scheduleReconnect();
+  };
+
+  async function open(): Promise<void> {
+    const connectGeneration = ++generation;
+
+    try {
+      log('Attempting to connect to SSE...');
+
+      const token = await getStreamToken();
+      if (connectGeneration !== generation) {
+        return;
+      }
+
+      if (!token) {
+        const errorMsg = 'No authentication token available';
+        log('Error:', errorMsg);
+        setState({ connectionError: errorMsg });
+        return;
+      }
+
+      const EventSourceImpl = getEventSource();
+      if (!EventSourceImpl) {
+        throw new Error('No EventSource implementation available; pass one to configureSdk()');
+      }
+
+      // connect() while already connected replaces the connection instead of adding one
+      eventSource?.close();
+
+      const url = options.url ?? getGatewayUrl('/events');
+      const source = new EventSourceImpl(`${url}?token=${encodeURIComponent(token)}`);
+      eventSource = source;
+
+      // Treat a connection that never opens as an error so the retry logic takes over
+      connectTimer = setTimeout(() => {
+        connectTimer = null;
+        if (source.readyState !== EventSourceImpl.OPEN) {
+          log(`SSE connection not opened after ${connectTimeout}ms`);
+          source.dispatchEvent(new Event('error'));
+        }
+      }, connectTimeout);
+
+      source.onopen = () => {
+        log('SSE connection opened');
+        if (connectTimer) {
+          clearTimeout(connectTimer);
+          connectTimer = null;
+        }
+        recordStreamConnect(state.reconnectAttempts > 0);
+        setState({ isConnected: true, connectionError: null, reconnectAttempts: 0 });
+        onOpen?.();
+      };
+
+      source.onmessage = (message) => {
+        try {
+          const data: SSEEvent = JSON.parse(message.data);
+          log('SSE event received:', data);
+          recordStreamEvent(data.timestamp);
+          onEvent?.(data);
+        } catch (error) {
+          console.error('Error parsing SSE event:', error);
+        }
+      };
+
+      source.onerror = (error) => handleError(error, source);
+    } catch (error) {
+      const errorMsg = `Error setting up SSE: ${error}`;
+      console.error(errorMsg);
+      setState({ connectionError: errorMsg });
+
+      if (autoReconnect && !isManualDisconnect) {
+        log(`Retrying connection in ${reconnectDelay}ms...`);
+        scheduleReconnect();
+      }
+    }
+  }
+
+  function connect(): Promise<void> {
+    isManualDisconnect = false;
+    return open();
+  }
+
+  function disconnect(): void {
+    log('Disconnecting from SSE...');
+    isManualDisconnect = true;
+    generation++;
+
+    if (eventSource) {
+      eventSource.close();
+      eventSource = null;
+    }
+
+    clearTimers();
+    setState({ isConnected: false, connectionError: null, reconnectAttempts: 0 });
+  }
+
+  function reconnect(): Promise<void> {
+    log('Manual reconnect requested');
+    disconnect();
+    return connect();
+  }
+
+  return {
+    connect,
+    disconnect,
+    reconnect,
+    getState: () => state,
+  };
+}
@@ -0,0 +1,93 @@
+// Auction entity
+
+import { z } from 'zod';
+import type { Auction, AuctionImage, AuctionSort, GetAuctionsResponse } from '../generated/auctionApi';
+import type { AuctionState } from '../auctionLifecycle';
+import { isCurrencyCode } from '../money';
+
+// Wire types come from the auction-service OpenAPI spec (npm run generate:api)
+// Older auction-service builds return a bare Auction[] and ignore the query parameters
+export type {
+  Auction,
+  AuctionSort,
+  AuctionStatus,
+  CreateAuctionRequest,
+  GetAuctionsResponse,
+  UpdateAuctionRequest,
+} from '../generated/auctionApi';
+
+// Search, filter, sort and pagination for auction lists
+export interface AuctionQueryParams {
+  /** Free-text search over item name and description */
+  query?: string;
+  category?: string;
+  status?: AuctionState;
+  sellerId?: string;
+  /** Inclusive bounds on the current price */
+  minPrice?: number;
+  maxPrice?: number;
+  sort?: AuctionSort;
+  /** Opaque cursor from a previous page's nextCursor */
+  cursor?: string;
+  limit?: number;
+}
+
+// One page of an auction list
+export interface AuctionPage {
+  auctions: Auction[];
+  nextCursor?: string;
+  hasMore: boolean;
+  /** Matches across all pages, when the backend reports it */
+  total?: number;
+}
+
+// Runtime schemas for the generated response types
+// Checked by the HTTP client so a backend contract change fails loudly at the boundary
+export const AuctionImageSchema: z.ZodType<AuctionImage> = z.object({
+  url: z.string(),
+  position: z.number(),
+  altText: z.string().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  isPrimary: z.boolean().optional(),
+});
+
+export const AuctionSchema: z.ZodType<Auction> = z.object({
+  id: z.string(),
+  itemName: z.string(),
+  itemDescription: z.string(),
+  category: z.string().optional(),
+  condition: z.string().optional(),
+  images: z.array(AuctionImageSchema).optional(),
+  imageUrls: z.string().nullable().optional(),
+  startingPrice: z.number(),
+  currentPrice: z.number(),
+  currency: z.string().refine(isCurrencyCode, 'Expected an ISO 4217 currency code').optional(),
+  sellerId: z.string(),
+  winnerId: z.string().nullable().optional(),
+  startTime: z.string(),
+  endTime: z.string(),
+  status: z.enum([
+    'draft',
+    'scheduled',
+    'open',
+    'extended',
+    'closed_unsold',
+    'awaiting_payment',
+    'paid',
+    'settled',
+    'cancelled',
+    'closed',
+  ]),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const AuctionListSchema: z.ZodType<Auction[]> = z.array(AuctionSchema);
+
+export const GetAuctionsResponseSchema: z.ZodType<GetAuctionsResponse> = z.object({
+  auctions: AuctionListSchema,
+  nextCursor: z.string().nullable().optional(),
+  hasMore: z.boolean().optional(),
+  total: z.number().optional(),
+});
@@ -0,0 +1,189 @@
+// User Service API Client
+import { z } from 'zod';
+import { createServiceClient, type CallOptions } from './httpClient';
+import { isUnsupportedOperation, UserServiceError } from './errors';
+import { fetchQuery } from './queryCache';
+import * as userApi from './generated/userApi';
+import type {
+  PublicProfile,
+  PublicProfileList,
+  UserProfile,
+  UserProfileUpdateRequest,
+  UserProfileUpdateResponse,
+} from './generated/userApi';
+
+// Request/Response types, generated from the user service OpenAPI spec
+export type {
+  PublicProfile,
+  PublicProfileList,
+  UserProfile,
+  UserProfileUpdateRequest,
+  UserProfileUpdateResponse,
+} from './generated/userApi';
+
+export const UserProfileSchema: z.ZodType<UserProfile> = z.object({
+  id: z.string(),
+  username: z.string(),
+  email: z.string(),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+});
+
+export const UserProfileUpdateResponseSchema: z.ZodType<UserProfileUpdateResponse> = z.object({
+  message: z.string(),
+  user: UserProfileSchema,
+});
+
+export const PublicProfileSchema: z.ZodType<PublicProfile> = z.object({
+  id: z.string(),
+  username: z.string(),
+  displayName: z.string(),
+  avatarUrl: z.string().optional(),
+});
+
+export const PublicProfileListSchema: z.ZodType<PublicProfileList> = z.object({
+  users: z.array(PublicProfileSchema),
+});
+
+const client = createServiceClient('USER_SERVICE', UserServiceError);
+
+/**
+ * Get current user profile
+ * Requires: signed-in session (token from the token provider, attached by the HTTP client)
+ */
+export async function getUserProfile(options: CallOptions = {}): Promise<UserProfile> {
+  return userApi.getUserProfile(client, {
+    schema: UserProfileSchema,
+    ...options,
+  });
+}
+
+/**
+ * Update user profile
+ * Requires: signed-in session (token from the token provider, attached by the HTTP client)
+ */
+export async function updateUserProfile(
+  updateData: UserProfileUpdateRequest,
+  options: CallOptions = {}
+): Promise<UserProfileUpdateResponse> {
+  return userApi.updateUserProfile(client, { body: updateData }, {
+    schema: UserProfileUpdateResponseSchema,
+    ...options,
+  });
+}
+
+/**
+ * Query cache keys for public profiles
+ * Keyed by the ID as it appears on auctions, bids and events (a username or a user ID)
+ */
+export const userQueryKeys = {
+  publicProfile: (userId: string) => `users:public:${userId}`,
+  publicProfiles: (userIds: string[]) => `users:public-batch:${JSON.stringify([...userIds].sort())}`,
+};
+
+// Most IDs the public profile endpoint accepts per request
+const PUBLIC_PROFILE_BATCH_SIZE = 100;
+
+interface PendingLookup {
+  resolve: (profile: PublicProfile | null) => void;
+  reject: (error: unknown) => void;
+}
+
+// Lookups requested in the same tick, sent together as one request
+let pendingLookups = new Map<string, PendingLookup>();
+
+// Set once the user service turns out not to have the public profile endpoint,
+// after which every lookup resolves to null and names fall back to IDs
+let publicProfilesUnsupported = false;
+
+async function sendLookups(lookups: Map<string, PendingLookup>): Promise<void> {
+  const userIds = [...lookups.keys()];
+
+  for (let start = 0; start < userIds.length; start += PUBLIC_PROFILE_BATCH_SIZE) {
+    const batch = userIds.slice(start, start + PUBLIC_PROFILE_BATCH_SIZE);
+    if (publicProfilesUnsupported) {
+      batch.forEach((userId) => lookups.get(userId)!.resolve(null));
+      continue;
+    }
+    try {
+      const { users } = await userApi.getPublicProfiles(client, { query: { ids: batch.join(',') } }, {
+        schema: PublicProfileListSchema,
+        authenticated: false,
+      });
+      batch.forEach((userId) => {
+        const profile = users.find((user) => user.id === userId || user.username === userId);
+        lookups.get(userId)!.resolve(profile ?? null);
+      });
+    } catch (error) {
+      if (isUnsupportedOperation(error)) {
+        publicProfilesUnsupported = true;
+        batch.forEach((userId) => lookups.get(userId)!.resolve(null));
+        continue;
+      }
+      batch.forEach((userId) => lookups.get(userId)!.reject(error));
+    }
+  }
+}
+
+/**
+ * Queue one ID for the next batched request; resolves to null for unknown users
+ */
+function lookupPublicProfile(userId: string): Promise<PublicProfile | null> {
+  return new Promise((resolve, reject) => {
+    if (pendingLookups.size === 0) {
+      queueMicrotask(() => {
+        const lookups = pendingLookups;
+        pendingLookups = new Map();
+        void sendLookups(lookups);
+      });
+    }
+    pendingLookups.set(userId, { resolve, reject });
+  });
+}
+
+/**
+ * Public profile of a seller, bidder or winner, null when the user doesn't exist
+ * or the user service has no public profile endpoint
+ * Cached, and batched with every other lookup made in the same tick
+ */
+export function getPublicProfile(userId: string): Promise<PublicProfile | null> {
+  return fetchQuery(userQueryKeys.publicProfile(userId), () => lookupPublicProfile(userId));
+}
+
+/**
+ * Public profiles for several users, keyed by the IDs passed in
+ * Unknown users, and users whose lookup failed, are left out; fails only when every lookup failed
+ */
+export async function getPublicProfiles(userIds: string[]): Promise<Record<string, PublicProfile>> {
+  const uniqueIds = [...new Set(userIds)];
+  const results = await Promise.allSettled(uniqueIds.map(getPublicProfile));
+
+  const profiles: Record<string, PublicProfile> = {};
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled' && result.value) {
+      profiles[uniqueIds[index]] = result.value;
+    }
+  });
+
+  const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (failure && results.every((result) => result.status === 'rejected')) {
+    throw failure.reason;
+  }
+  return profiles;
+}
+
+/**
+ * Name to show for a user: the public display name, or the raw ID until it has loaded
+ */
+export function getDisplayName(userId: string, profile?: PublicProfile | null): string {
+  return profile?.displayName || userId;
+}
+
+export const userService = {
+  getUserProfile,
+  updateUserProfile,
+  getPublicProfile,
+  getPublicProfiles,
+};
+
+export default userService;
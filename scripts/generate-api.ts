@@ -0,0 +1,410 @@
+// OpenAPI Client Generator
+// Turns the service specs in openapi/ into request/response types and thin typed
+// operation functions in packages/sdk/src/generated/, which the service modules are built on
+//
+// Usage:
+//   npm run generate:api               regenerate from the spec snapshots
+//   npm run generate:api -- --fetch    download fresh specs from the running services first
+//   npm run generate:api -- --check    exit 1 when the generated files are out of date
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+interface SpecSource {
+  /** Spec snapshot in openapi/ */
+  snapshot: string;
+  /** Generated module in packages/sdk/src/generated/ */
+  module: string;
+  /** Where the running service serves its spec, overridable with this environment variable */
+  urlEnv: string;
+  defaultUrl: string;
+  /** Service path prefix and the gateway prefix Kong exposes it under (routes with strip_path) */
+  pathRewrite?: [string, string];
+}
+
+// Default spec URLs assume docker-compose ports (see DIRECT_SERVICE_ENDPOINTS)
+const SOURCES: SpecSource[] = [
+  {
+    snapshot: 'user-service.json',
+    module: 'userApi',
+    urlEnv: 'OPENAPI_URL_USER_SERVICE',
+    defaultUrl: 'http://localhost:8000/api-docs',
+  },
+  {
+    snapshot: 'auction-service.json',
+    module: 'auctionApi',
+    urlEnv: 'OPENAPI_URL_AUCTION_SERVICE',
+    defaultUrl: 'http://localhost:4000/api-docs.json',
+    pathRewrite: ['/auctions', '/api/auctions'],
+  },
+  {
+    snapshot: 'bid-command.json',
+    module: 'bidCommandApi',
+    urlEnv: 'OPENAPI_URL_BID_COMMAND',
+    defaultUrl: 'http://localhost:8082/openapi.json',
+  },
+  {
+    snapshot: 'bid-query.json',
+    module: 'bidQueryApi',
+    urlEnv: 'OPENAPI_URL_BID_QUERY',
+    defaultUrl: 'http://localhost:8083/openapi.json',
+  },
+  {
+    snapshot: 'payment-service.json',
+    module: 'paymentApi',
+    urlEnv: 'OPENAPI_URL_PAYMENT_SERVICE',
+    defaultUrl: 'http://localhost:3000/api-docs-json',
+  },
+];
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+
+interface Schema {
+  $ref?: string;
+  type?: string;
+  format?: string;
+  description?: string;
+  enum?: Array<string | number | boolean>;
+  items?: Schema;
+  properties?: Record<string, Schema>;
+  required?: string[];
+  additionalProperties?: boolean | Schema;
+  oneOf?: Schema[];
+  anyOf?: Schema[];
+  allOf?: Schema[];
+  nullable?: boolean;
+  /** Not confirmed against a running service, see PROPOSED_NOTE */
+  'x-proposed'?: boolean;
+  /** Enum values that are proposed while the rest are confirmed */
+  'x-proposed-values'?: string[];
+}
+
+interface Parameter {
+  $ref?: string;
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  description?: string;
+  schema?: Schema;
+  'x-proposed'?: boolean;
+}
+
+interface MediaContent {
+  content?: Record<string, { schema?: Schema }>;
+}
+
+interface Operation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  parameters?: Parameter[];
+  requestBody?: MediaContent & { required?: boolean };
+  responses?: Record<string, MediaContent>;
+  'x-proposed'?: boolean;
+}
+
+type PathItem = Partial<Record<(typeof HTTP_METHODS)[number], Operation>> & { parameters?: Parameter[] };
+
+interface OpenApiSpec {
+  openapi?: string;
+  swagger?: string;
+  paths: Record<string, PathItem>;
+  components?: {
+    schemas?: Record<string, Schema>;
+    parameters?: Record<string, Parameter>;
+  };
+}
+
+const rootDir = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const specDir = resolve(rootDir, 'openapi');
+const outputDir = resolve(rootDir, 'packages/sdk/src/generated');
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name);
+}
+
+function indent(level: number): string {
+  return '  '.repeat(level);
+}
+
+// Spec snapshots were first written by hand from the frontend's contract, and later features
+// added surface no service is known to serve yet; those parts carry x-proposed in the spec
+const PROPOSED_NOTE = 'Proposed: not confirmed against a running service, older builds may not support it';
+
+function proposedNotes(item: { 'x-proposed'?: boolean; 'x-proposed-values'?: string[] }): string[] {
+  return [
+    item['x-proposed'] ? PROPOSED_NOTE : '',
+    item['x-proposed-values'] ? `Proposed values, not confirmed against a running service: ${item['x-proposed-values'].join(', ')}` : '',
+  ];
+}
+
+function docComment(lines: Array<string | undefined>, level: number): string {
+  const text = lines.filter((line): line is string => Boolean(line));
+  if (text.length === 0) {
+    return '';
+  }
+  if (text.length === 1) {
+    return `${indent(level)}/** ${text[0]} */\n`;
+  }
+  return `${indent(level)}/**\n${text.map((line) => `${indent(level)} * ${line}`).join('\n')}\n${indent(level)} */\n`;
+}
+
+function refName(ref: string, kind: 'schemas' | 'parameters'): string {
+  const prefix = `#/components/${kind}/`;
+  if (!ref.startsWith(prefix)) {
+    throw new Error(`Unsupported $ref ${ref}: only ${prefix}* is resolved`);
+  }
+  return ref.slice(prefix.length);
+}
+
+/**
+ * TypeScript type for a schema; nested objects are written inline at the given depth
+ */
+function toType(schema: Schema, level: number): string {
+  let type: string;
+
+  if (schema.$ref) {
+    type = refName(schema.$ref, 'schemas');
+  } else if (schema.oneOf || schema.anyOf) {
+    type = (schema.oneOf ?? schema.anyOf)!.map((member) => toType(member, level)).join(' | ');
+  } else if (schema.allOf) {
+    type = schema.allOf.map((member) => wrapComposite(toType(member, level))).join(' & ');
+  } else if (schema.enum) {
+    type = schema.enum.map((value) => (typeof value === 'string' ? quote(value) : String(value))).join(' | ');
+  } else if (schema.type === 'array') {
+    type = `${wrapComposite(schema.items ? toType(schema.items, level) : 'unknown')}[]`;
+  } else if (schema.type === 'object' || schema.properties) {
+    type = toObjectType(schema, level);
+  } else if (schema.type === 'string') {
+    type = 'string';
+  } else if (schema.type === 'number' || schema.type === 'integer') {
+    type = 'number';
+  } else if (schema.type === 'boolean') {
+    type = 'boolean';
+  } else {
+    type = 'unknown';
+  }
+
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function wrapComposite(type: string): string {
+  return / [|&] /.test(type) && !type.startsWith('{') ? `(${type})` : type;
+}
+
+function toObjectType(schema: Schema, level: number): string {
+  const properties = Object.entries(schema.properties ?? {});
+
+  if (properties.length === 0) {
+    const additional = schema.additionalProperties;
+    return typeof additional === 'object'
+      ? `Record<string, ${toType(additional, level)}>`
+      : 'Record<string, unknown>';
+  }
+
+  const required = new Set(schema.required ?? []);
+  const members = properties.map(([name, property]) =>
+    `${docComment([property.description, ...proposedNotes(property)], level + 1)}${indent(level + 1)}${propertyName(name)}${required.has(name) ? '' : '?'}: ${toType(property, level + 1)};`
+  );
+  return `{\n${members.join('\n')}\n${indent(level)}}`;
+}
+
+function generateSchemaType(name: string, schema: Schema): string {
+  const doc = docComment([schema.description, ...proposedNotes(schema)], 0);
+  if ((schema.type === 'object' || schema.properties) && !schema.nullable && schema.properties) {
+    return `${doc}export interface ${name} ${toObjectType(schema, 0)}`;
+  }
+  return `${doc}export type ${name} = ${toType(schema, 0)};`;
+}
+
+function resolveParameter(spec: OpenApiSpec, parameter: Parameter): Parameter {
+  if (!parameter.$ref) {
+    return parameter;
+  }
+  const resolved = spec.components?.parameters?.[refName(parameter.$ref, 'parameters')];
+  if (!resolved) {
+    throw new Error(`Unresolved parameter ${parameter.$ref}`);
+  }
+  return resolved;
+}
+
+function getJsonSchema(content?: MediaContent['content']): Schema | undefined {
+  const entry = Object.entries(content ?? {}).find(([mediaType]) => mediaType.includes('json'));
+  return entry?.[1].schema;
+}
+
+function getResponseType(operation: Operation): string {
+  const success = Object.entries(operation.responses ?? {})
+    .filter(([status]) => /^2\d\d$/.test(status))
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  for (const [status, response] of success) {
+    const schema = getJsonSchema(response.content);
+    if (schema) {
+      return toType(schema, 0);
+    }
+    if (status === '204') {
+      return 'void';
+    }
+  }
+  return 'unknown';
+}
+
+/**
+ * One operation function: typed request in, client.request out
+ */
+function generateOperation(spec: OpenApiSpec, source: SpecSource, path: string, method: string, operation: Operation, pathParameters: Parameter[]): string {
+  if (!operation.operationId) {
+    throw new Error(`${source.snapshot}: ${method.toUpperCase()} ${path} has no operationId`);
+  }
+
+  const gatewayPath = source.pathRewrite && path.startsWith(source.pathRewrite[0])
+    ? source.pathRewrite[1] + path.slice(source.pathRewrite[0].length)
+    : path;
+
+  // Operation-level parameters override path-level ones with the same name and location
+  const parameters = new Map<string, Parameter>();
+  [...pathParameters, ...(operation.parameters ?? [])]
+    .map((parameter) => resolveParameter(spec, parameter))
+    .forEach((parameter) => parameters.set(`${parameter.in}:${parameter.name}`, parameter));
+
+  const groups: Array<{ key: 'path' | 'query' | 'header'; members: Parameter[] }> = (['path', 'query', 'header'] as const)
+    .map((key) => ({ key, members: [...parameters.values()].filter((parameter) => parameter.in === key) }))
+    .filter((group) => group.members.length > 0);
+
+  const fields = groups.map(({ key, members }) => {
+    const required = key === 'path' || members.some((member) => member.required);
+    const memberLines = members.map((member) =>
+      `${docComment([member.description, ...proposedNotes(member)], 3)}${indent(3)}${propertyName(member.name)}${key === 'path' || member.required ? '' : '?'}: ${member.schema ? toType(member.schema, 3) : 'string'};`
+    );
+    return { required, line: `${indent(2)}${key}${required ? '' : '?'}: {\n${memberLines.join('\n')}\n${indent(2)}};` };
+  });
+
+  const bodySchema = getJsonSchema(operation.requestBody?.content);
+  if (bodySchema) {
+    const required = operation.requestBody?.required ?? false;
+    fields.push({ required, line: `${indent(2)}body${required ? '' : '?'}: ${toType(bodySchema, 2)};` });
+  }
+
+  const responseType = getResponseType(operation);
+  const hasRequest = fields.length > 0;
+  const requestOptional = fields.every((field) => !field.required);
+  const has = (key: string) => groups.some((group) => group.key === key);
+
+  const signature = [
+    '  client: ServiceClient,',
+    hasRequest ? `  request: {\n${fields.map((field) => field.line).join('\n')}\n  }${requestOptional ? ' = {}' : ''},` : undefined,
+    `  options: OperationOptions<${responseType}> = {}`,
+  ].filter(Boolean).join('\n');
+
+  const urlArguments = [
+    quote(gatewayPath),
+    has('path') ? 'request.path' : has('query') ? 'undefined' : undefined,
+    has('query') ? 'request.query' : undefined,
+  ].filter(Boolean).join(', ');
+
+  const requestOptions = [
+    `    method: ${quote(method.toUpperCase())},`,
+    `    action: ${quote(getDefaultAction(operation))},`,
+    `    operation: ${quote(operation.operationId!)},`,
+    '    ...options,',
+    has('header') ? '    headers: { ...request.header, ...options.headers },' : undefined,
+    bodySchema ? '    body: request.body,' : undefined,
+  ].filter(Boolean).join('\n');
+
+  return `${docComment([operation.summary, operation.description, ...proposedNotes(operation), `${method.toUpperCase()} ${gatewayPath}`], 0)}`
+    + `export function ${operation.operationId}(\n${signature}\n): Promise<${responseType}> {\n`
+    + `  return client.request<${responseType}>(buildOperationUrl(${urlArguments}), {\n${requestOptions}\n  });\n}`;
+}
+
+/**
+ * Default error-message action from the summary, e.g. 'Place bid' -> 'place bid'
+ */
+function getDefaultAction(operation: Operation): string {
+  const summary = operation.summary ?? operation.operationId!;
+  return summary.charAt(0).toLowerCase() + summary.slice(1);
+}
+
+function generateModule(source: SpecSource, spec: OpenApiSpec): string {
+  if (!spec.openapi?.startsWith('3.')) {
+    throw new Error(`${source.snapshot}: only OpenAPI 3.x is supported (got ${spec.openapi ?? `swagger ${spec.swagger}`})`);
+  }
+
+  const schemas = Object.entries(spec.components?.schemas ?? {})
+    .map(([name, schema]) => generateSchemaType(name, schema));
+
+  const operations = Object.entries(spec.paths).flatMap(([path, item]) =>
+    HTTP_METHODS
+      .filter((method) => item[method])
+      .map((method) => generateOperation(spec, source, path, method, item[method]!, item.parameters ?? []))
+  );
+
+  return [
+    `// Generated by scripts/generate-api.ts from openapi/${source.snapshot} - do not edit by hand`,
+    '// Update the spec snapshot (npm run generate:api -- --fetch) and regenerate instead',
+    '',
+    "import { buildOperationUrl, type OperationOptions, type ServiceClient } from '../httpClient';",
+    '',
+    ...schemas.flatMap((schema) => [schema, '']),
+    ...operations.flatMap((operation) => [operation, '']),
+  ].join('\n');
+}
+
+async function fetchSpec(source: SpecSource): Promise<void> {
+  const url = process.env[source.urlEnv] || source.defaultUrl;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const spec = await response.json();
+    await writeFile(resolve(specDir, source.snapshot), `${JSON.stringify(spec, null, 2)}\n`);
+    console.log(`Fetched ${source.snapshot} from ${url}`);
+  } catch (error) {
+    console.warn(`Could not fetch ${url} (${error instanceof Error ? error.message : error}), keeping openapi/${source.snapshot}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const args = new Set(process.argv.slice(2));
+
+  if (args.has('--fetch')) {
+    for (const source of SOURCES) {
+      await fetchSpec(source);
+    }
+  }
+
+  await mkdir(outputDir, { recursive: true });
+  const stale: string[] = [];
+
+  for (const source of SOURCES) {
+    const spec: OpenApiSpec = JSON.parse(await readFile(resolve(specDir, source.snapshot), 'utf8'));
+    const output = generateModule(source, spec);
+    const outputPath = resolve(outputDir, `${source.module}.ts`);
+
+    if (args.has('--check')) {
+      const current = await readFile(outputPath, 'utf8').catch(() => '');
+      if (current !== output) {
+        stale.push(`packages/sdk/src/generated/${source.module}.ts`);
+      }
+    } else {
+      await writeFile(outputPath, output);
+      console.log(`Generated packages/sdk/src/generated/${source.module}.ts`);
+    }
+  }
+
+  if (stale.length > 0) {
+    console.error(`Out of date, run npm run generate:api:\n${stale.map((file) => `  ${file}`).join('\n')}`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,10 +1,12 @@
 import outputs from "../amplify_outputs.json";
 import {Amplify} from "aws-amplify";
-import {useEffect, useState} from "react";
+import {useCallback, useEffect, useState} from "react";
 import type {AuthUser} from "aws-amplify/auth";
 import {getCurrentUser, signOut, fetchUserAttributes} from "aws-amplify/auth";
 import MainContent from "./components/MainContent.tsx";
 import AuthenticatorWrapper from "./components/AuthenticatorWrapper.tsx";
+import ReauthenticationPrompt from "./components/ReauthenticationPrompt.tsx";
+import {onSessionExpired} from "@biddergod/sdk";
 
 Amplify.configure(outputs);
 
@@ -15,11 +17,23 @@ export interface UserWithEmail extends AuthUser {
 function App() {
     const [showAuth, setShowAuth] = useState(false);
     const [user, setUser] = useState<UserWithEmail | null>(null);
+    const [sessionExpired, setSessionExpired] = useState(false);
 
     useEffect(() => {
         void checkAuthStatus();
     }, []);
 
+    // A service call could not refresh the session: ask the user to sign in again
+    // (only shown to signed-in users, signed-out visitors have no session to renew)
+    useEffect(() => {
+        return onSessionExpired(() => setSessionExpired(true));
+    }, []);
+
+    const handleReauthenticated = useCallback(() => {
+        setSessionExpired(false);
+        void checkAuthStatus();
+    }, []);
+
     const checkAuthStatus = async () => {
         try {
             const currentUser = await getCurrentUser();
@@ -52,7 +66,15 @@ function App() {
     }
 
     return (
-        <MainContent user={user} handleSignOut = {handleSignOut} setShowAuth={setShowAuth}/>
+        <>
+            <MainContent user={user} handleSignOut = {handleSignOut} setShowAuth={setShowAuth}/>
+            {sessionExpired && user && (
+                <ReauthenticationPrompt
+                    onReauthenticated={handleReauthenticated}
+                    onDismiss={() => setSessionExpired(false)}
+                />
+            )}
+        </>
     );
 }
 
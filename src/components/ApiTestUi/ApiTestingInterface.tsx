@@ -5,7 +5,7 @@ import {UserInformation} from "./UserInformation.tsx";
 import TokensCopyTool from "./TokensCopyTool.tsx";
 import SwaggerUI from "swagger-ui-react";
 import "swagger-ui-react/swagger-ui.css";
-import { config } from "../../config/environment";
+import { getApiUrl } from "../../config/environment";
 
 interface ApiTestingInterfaceProps {
     user: AuthUser | null;
@@ -20,7 +20,7 @@ export default function ApiTestingInterface({user}: ApiTestingInterfaceProps) {
     // Use environment-aware configuration
     // In local dev: http://localhost:8000 (Kong API Gateway via docker-compose)
     // In production: Kong public IP/URL from AWS deployment
-    const USERS_SERVICE_URL = config.apiGatewayUrl;
+    const USERS_SERVICE_URL = getApiUrl();
 
     useEffect(() => {
         if (user) {
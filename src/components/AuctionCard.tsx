@@ -1,19 +1,51 @@
 import { useState } from 'react';
-import { openAuction, endAuction } from '../services/auctionService';
+import {
+  AUCTION_STATE_LABELS,
+  AUCTION_STATE_PHASES,
+  canTransition,
+  cancelAuction,
+  compareMoney,
+  DEFAULT_CURRENCY,
+  endAuction,
+  formatMoney,
+  getPrimaryImage,
+  openAuction,
+  ServiceError,
+  type AuctionImage,
+  type AuctionState,
+  type Money,
+} from '@biddergod/sdk';
 import BidDialog from './BidDialog';
+import { useCircuitState } from '../hooks/useCircuitState';
+
+// Badge colours per lifecycle state
+const STATE_BADGE_CLASSES: Record<AuctionState, string> = {
+  draft: 'bg-yellow-100 text-yellow-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  open: 'bg-green-100 text-green-800',
+  extended: 'bg-orange-100 text-orange-800',
+  closed_unsold: 'bg-gray-100 text-gray-600',
+  awaiting_payment: 'bg-purple-100 text-purple-800',
+  paid: 'bg-indigo-100 text-indigo-800',
+  settled: 'bg-gray-100 text-gray-600',
+  cancelled: 'bg-red-100 text-red-700',
+};
 
 interface AuctionCardProps {
   id?: string;
   title?: string;
   itemDescription?: string;
-  startingPrice?: number;
-  currentBid?: number;
-  imageUrls?: string[];
+  startingPrice?: Money;
+  currentBid?: Money;
+  images?: AuctionImage[];
   condition?: string;
   auctionEndTime?: string;
-  status?: string;
+  status: AuctionState;
   totalBids?: number;
+  sellerId?: string;
   sellerName?: string;
+  sellerAvatarUrl?: string;
+  winnerName?: string;
   category?: string;
   currentUsername?: string;
   onAuctionUpdate?: () => void;
@@ -24,14 +56,17 @@ export function AuctionCard({
   id,
   title = "Premium Auction Item",
   itemDescription = "A carefully curated item perfect for collectors and enthusiasts.",
-  startingPrice = 100,
-  currentBid = 0,
-  imageUrls,
+  startingPrice = { amount: 10000, currency: DEFAULT_CURRENCY },
+  currentBid = { amount: 0, currency: startingPrice.currency },
+  images = [],
   condition = "excellent",
   auctionEndTime = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString(),
-  status = "active",
-  totalBids = 0,
+  status,
+  totalBids,
+  sellerId,
   sellerName = "TrustedSeller",
+  sellerAvatarUrl,
+  winnerName,
   category = "Collectibles",
   currentUsername,
   onAuctionUpdate,
@@ -39,22 +74,30 @@ export function AuctionCard({
 }: AuctionCardProps) {
   const [isActionLoading, setIsActionLoading] = useState(false);
   const [isBidDialogOpen, setIsBidDialogOpen] = useState(false);
+  const [sellerActionError, setSellerActionError] = useState<string | null>(null);
   const timeLeft = getTimeRemaining(auctionEndTime);
-  const displayPrice = currentBid > 0 ? currentBid : startingPrice;
-  const hasImage = imageUrls && imageUrls.length > 0;
-  const isSeller = currentUsername && sellerName === currentUsername;
+  const hasBid = currentBid.amount > 0;
+  const displayPrice = hasBid ? currentBid : startingPrice;
+  const primaryImage = getPrimaryImage(images);
+  const isSeller = currentUsername && sellerId === currentUsername;
+  const biddingUnavailable = useCircuitState('BID_COMMAND') === 'open';
+  const phase = AUCTION_STATE_PHASES[status];
+  const canBid = canTransition(status, 'bid') && timeLeft !== 'Ended' && !biddingUnavailable;
+  // The service refuses to cancel once someone has bid, so only offer it once the count is known
+  const canCancel = canTransition(status, 'cancel') && totalBids === 0;
 
   const handleOpenAuction = async () => {
     if (!id) return;
 
     try {
       setIsActionLoading(true);
+      setSellerActionError(null);
       await openAuction(id);
       alert('Auction opened successfully!');
       if (onAuctionUpdate) onAuctionUpdate();
     } catch (error) {
       console.error('Failed to open auction:', error);
-      alert(`Failed to open auction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setSellerActionError(getSellerActionErrorMessage(error, 'open'));
     } finally {
       setIsActionLoading(false);
     }
@@ -68,12 +111,33 @@ export function AuctionCard({
 
     try {
       setIsActionLoading(true);
+      setSellerActionError(null);
       await endAuction(id);
       alert('Auction ended successfully!');
       if (onAuctionUpdate) onAuctionUpdate();
     } catch (error) {
       console.error('Failed to end auction:', error);
-      alert(`Failed to end auction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setSellerActionError(getSellerActionErrorMessage(error, 'end'));
+    } finally {
+      setIsActionLoading(false);
+    }
+  };
+
+  const handleCancelAuction = async () => {
+    if (!id) return;
+
+    const confirmed = confirm('Are you sure you want to cancel this auction? This cannot be undone.');
+    if (!confirmed) return;
+
+    try {
+      setIsActionLoading(true);
+      setSellerActionError(null);
+      await cancelAuction(id);
+      alert('Auction cancelled.');
+      if (onAuctionUpdate) onAuctionUpdate();
+    } catch (error) {
+      console.error('Failed to cancel auction:', error);
+      setSellerActionError(getSellerActionErrorMessage(error, 'cancel'));
     } finally {
       setIsActionLoading(false);
     }
@@ -94,10 +158,12 @@ export function AuctionCard({
 
       {/* Image Section */}
       <div className="relative h-48 bg-gray-100">
-        {hasImage ? (
+        {primaryImage ? (
           <img
-            src={imageUrls[0]}
-            alt={title}
+            src={primaryImage.url}
+            alt={primaryImage.altText || title}
+            width={primaryImage.width}
+            height={primaryImage.height}
             className="w-full h-full object-cover"
           />
         ) : (
@@ -108,14 +174,8 @@ export function AuctionCard({
 
         {/* Status Badge */}
         <div className="absolute top-3 right-3">
-          <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-            status === 'open'
-              ? 'bg-green-100 text-green-800'
-              : status === 'draft'
-              ? 'bg-yellow-100 text-yellow-800'
-              : 'bg-gray-100 text-gray-600'
-          }`}>
-            {status.toUpperCase()}
+          <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATE_BADGE_CLASSES[status]}`}>
+            {AUCTION_STATE_LABELS[status].toUpperCase()}
           </span>
         </div>
 
@@ -143,16 +203,16 @@ export function AuctionCard({
         <div className="mb-4">
           <div className="flex items-baseline gap-2">
             <span className="text-2xl font-bold text-indigo-600">
-              ${displayPrice.toLocaleString()}
+              {formatMoney(displayPrice, { omitZeroFraction: true })}
             </span>
-            {currentBid > startingPrice && (
+            {compareMoney(currentBid, startingPrice) > 0 && (
               <span className="text-sm text-gray-500 line-through">
-                ${startingPrice.toLocaleString()}
+                {formatMoney(startingPrice, { omitZeroFraction: true })}
               </span>
             )}
           </div>
           <p className="text-sm text-gray-500 mt-1">
-            {currentBid > 0 ? 'Current bid' : 'Starting price'}
+            {hasBid ? 'Current bid' : 'Starting price'}
           </p>
         </div>
 
@@ -160,7 +220,7 @@ export function AuctionCard({
         <div className="flex items-center justify-between text-sm text-gray-500 mb-4">
           <div className="flex items-center gap-4">
             <span>⏰ {timeLeft}</span>
-            <span>🔨 {totalBids} bid{totalBids !== 1 ? 's' : ''}</span>
+            <span>🔨 {totalBids ?? '–'} bid{totalBids !== 1 ? 's' : ''}</span>
           </div>
           <span className="capitalize">{condition}</span>
         </div>
@@ -168,20 +228,32 @@ export function AuctionCard({
         {/* Seller Info */}
         <div className="flex items-center justify-between mb-4">
           <div className="flex items-center gap-2">
-            <div className="w-6 h-6 bg-gradient-to-r from-indigo-500 to-purple-500 rounded-full flex items-center justify-center">
-              <span className="text-white text-xs font-medium">
-                {sellerName.charAt(0).toUpperCase()}
-              </span>
-            </div>
+            {sellerAvatarUrl ? (
+              <img src={sellerAvatarUrl} alt={sellerName} className="w-6 h-6 rounded-full object-cover" />
+            ) : (
+              <div className="w-6 h-6 bg-gradient-to-r from-indigo-500 to-purple-500 rounded-full flex items-center justify-center">
+                <span className="text-white text-xs font-medium">
+                  {sellerName.charAt(0).toUpperCase()}
+                </span>
+              </div>
+            )}
             <span className="text-sm text-gray-600">{sellerName}</span>
           </div>
+          {phase === 'ended' && winnerName && (
+            <span className="text-sm text-gray-500">Won by {winnerName}</span>
+          )}
         </div>
 
         {/* Action Buttons */}
         {isSeller ? (
           // Seller controls
           <div className="space-y-2">
-            {status === 'draft' && (
+            {sellerActionError && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-sm text-red-600">{sellerActionError}</p>
+              </div>
+            )}
+            {canTransition(status, 'open') && (
               <button
                 onClick={handleOpenAuction}
                 disabled={isActionLoading}
@@ -190,7 +262,7 @@ export function AuctionCard({
                 {isActionLoading ? 'Opening...' : 'Open Auction'}
               </button>
             )}
-            {status === 'open' && (
+            {canTransition(status, 'end') && (
               <button
                 onClick={handleEndAuction}
                 disabled={isActionLoading}
@@ -199,9 +271,18 @@ export function AuctionCard({
                 {isActionLoading ? 'Ending...' : 'End Auction'}
               </button>
             )}
-            {status === 'closed' && (
+            {canCancel && (
+              <button
+                onClick={handleCancelAuction}
+                disabled={isActionLoading}
+                className="w-full py-3 px-4 rounded-lg font-medium transition-colors border border-red-300 text-red-700 hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isActionLoading ? 'Cancelling...' : 'Cancel Auction'}
+              </button>
+            )}
+            {phase === 'ended' && (
               <div className="w-full py-3 px-4 rounded-lg font-medium text-center bg-gray-100 text-gray-600">
-                Auction Closed
+                {AUCTION_STATE_LABELS[status]}
               </div>
             )}
           </div>
@@ -221,13 +302,19 @@ export function AuctionCard({
                 setIsBidDialogOpen(true);
               }}
               className={`w-full py-3 px-4 rounded-lg font-medium transition-colors ${
-                status !== 'open' || timeLeft === 'Ended'
+                !canBid
                   ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
                   : 'bg-indigo-600 hover:bg-indigo-700 text-white'
               }`}
-              disabled={status !== 'open' || timeLeft === 'Ended'}
+              disabled={!canBid}
             >
-              {timeLeft === 'Ended' ? 'Auction Ended' : status === 'draft' ? 'Not Yet Open' : 'Place Bid'}
+              {status === 'cancelled'
+                ? 'Auction Cancelled'
+                : phase === 'ended' || timeLeft === 'Ended'
+                  ? 'Auction Ended'
+                  : phase === 'upcoming'
+                    ? 'Not Yet Open'
+                    : biddingUnavailable ? 'Bidding Unavailable' : 'Place Bid'}
             </button>
 
             {/* Bid Dialog */}
@@ -253,6 +340,29 @@ export function AuctionCard({
   );
 }
 
+/**
+ * Turn a failed open/end call into the message shown on the card
+ * Kong answers 401 for an expired or missing token and 403 when the token is not the seller's
+ */
+function getSellerActionErrorMessage(error: unknown, action: 'open' | 'end' | 'cancel'): string {
+  if (!(error instanceof ServiceError)) {
+    return `Failed to ${action} auction: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+
+  switch (error.kind) {
+    case 'auth':
+      return error.status === 403
+        ? 'You are not the seller of this auction.'
+        : 'Your session has expired. Please sign in again.';
+    case 'conflict':
+      return 'This auction has changed since it was loaded. Refresh and try again.';
+    case 'rate-limited':
+      return 'Too many requests. Please wait a moment and try again.';
+    default:
+      return `Failed to ${action} auction: ${error.message}`;
+  }
+}
+
 function getTimeRemaining(endTime: string): string {
   const end = new Date(endTime).getTime();
   const now = new Date().getTime();
@@ -1,12 +1,34 @@
-import { useState, useEffect } from 'react';
+import { useState, useMemo } from 'react';
 import { AuctionCard } from './AuctionCard';
-import SearchAndFilter from './SearchAndFilter';
+import SearchAndFilter, { type PriceRange } from './SearchAndFilter';
 import WinnerNotification from './WinnerNotification';
 import PaymentDialog from './PaymentDialog';
-import { getAllAuctions } from '../services/auctionService';
-import { mapAuctionToDisplay } from '../types/auction';
-import type { AuctionDisplay } from '../types/auction';
+import {
+  auctionQueryKeys,
+  getAllAuctions,
+  DEFAULT_CURRENCY,
+  invalidateAuctionQueries,
+  moneyFromMajor,
+  moneyFromMinor,
+  normalizeCurrency,
+  toMajorUnits,
+  updateCachedAuction,
+  updateCachedBidCount,
+  type Money,
+} from '@biddergod/sdk';
+import {
+  getAuctionUserIds,
+  mapAuctionToDisplay,
+  type AuctionDisplay,
+  type AuctionState,
+  type AuctionQueryParams,
+  type AuctionSort,
+} from '../types/auction';
 import { useSSE, type SSEEvent } from '../hooks/useSSE';
+import { useCachedQuery } from '../hooks/useCachedQuery';
+import { useBidCounts } from '../hooks/useBidCounts';
+import { usePublicProfiles } from '../hooks/usePublicProfiles';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
 import { API_ENDPOINTS } from '../config/api';
 import type { UserWithEmail } from '../App';
 
@@ -15,27 +37,123 @@ interface AuctionsGridProps {
   user?: UserWithEmail | null;
 }
 
+// auction.won carries its fields at the top level rather than in data
+interface AuctionWonEvent extends SSEEvent {
+  auctionId?: string;
+  itemName?: string;
+  finalPrice?: number;
+  currency?: string;
+  winnerId?: string;
+  sellerId?: string;
+}
+
 // Winner notification state
 interface WinnerNotificationData {
   auctionId: string;
   auctionTitle: string;
-  finalPrice: number;
+  finalPrice: Money;
   paymentDeadline?: string;
   sellerId: string;
 }
 
+const PAGE_SIZE = 12;
+
+// Wait for typing to pause before querying the auction service
+const FILTER_DEBOUNCE_MS = 300;
+
+// Event prices are in major units; undefined when missing, out of range or in an unknown currency
+function getEventPrice(price: unknown, currency: string | null | undefined): Money | undefined {
+  if (typeof price !== 'number' || !(price > 0)) {
+    return undefined;
+  }
+  try {
+    return moneyFromMajor(price, normalizeCurrency(currency));
+  } catch {
+    return undefined;
+  }
+}
+
+// Final price for the winner notification, the price already shown when the event has none
+function getFinalPrice(price: unknown, currency: string | undefined, auction?: AuctionDisplay): Money {
+  return getEventPrice(price, currency ?? auction?.currentBid.currency)
+    ?? auction?.currentBid
+    ?? moneyFromMinor(0, DEFAULT_CURRENCY);
+}
+
+// Bids carried by a bid event; batched events list them in data.bids
+function getPlacedBidCount(event: SSEEvent): number {
+  return Array.isArray(event.data?.bids) ? event.data.bids.length : 1;
+}
+
+function parsePrice(value: string): number | undefined {
+  const price = parseFloat(value);
+  return Number.isFinite(price) && price >= 0 ? price : undefined;
+}
+
 export default function AuctionsGrid({ currentUsername, user }: AuctionsGridProps = {}) {
-  const [auctions, setAuctions] = useState<AuctionDisplay[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('');
-  const [sortBy, setSortBy] = useState('ending_soon');
+  const [selectedStatus, setSelectedStatus] = useState('');
+  const [priceRange, setPriceRange] = useState<PriceRange>({ min: '', max: '' });
+  const [sortBy, setSortBy] = useState<AuctionSort>('ending_soon');
+  // Cursors of the pages after the first, in the order they were visited
+  const [pageCursors, setPageCursors] = useState<string[]>([]);
+
+  const debouncedQuery = useDebouncedValue(searchQuery.trim(), FILTER_DEBOUNCE_MS);
+  const debouncedMinPrice = useDebouncedValue(priceRange.min, FILTER_DEBOUNCE_MS);
+  const debouncedMaxPrice = useDebouncedValue(priceRange.max, FILTER_DEBOUNCE_MS);
+  const cursor = pageCursors[pageCursors.length - 1];
+
+  const queryParams = useMemo<AuctionQueryParams>(() => ({
+    query: debouncedQuery || undefined,
+    category: selectedCategory || undefined,
+    status: (selectedStatus || undefined) as AuctionState | undefined,
+    minPrice: parsePrice(debouncedMinPrice),
+    maxPrice: parsePrice(debouncedMaxPrice),
+    sort: sortBy,
+    cursor,
+    limit: PAGE_SIZE,
+  }), [debouncedQuery, selectedCategory, selectedStatus, debouncedMinPrice, debouncedMaxPrice, sortBy, cursor]);
+
+  const {
+    data: auctionPage,
+    loading,
+    error: loadError,
+    retryProgress,
+    refresh: handleRefresh,
+  } = useCachedQuery(
+    auctionQueryKeys.list(queryParams),
+    (options) => getAllAuctions(queryParams, options),
+    { keepPreviousData: true }
+  );
+  const auctionData = auctionPage?.auctions;
+  const bidCounts = useBidCounts((auctionData ?? []).map((auction) => auction.id));
+  const profiles = usePublicProfiles(getAuctionUserIds(auctionData ?? []));
   const [updatedAuctionIds, setUpdatedAuctionIds] = useState<Set<string>>(new Set());
   // Winner notification state
   const [winnerNotification, setWinnerNotification] = useState<WinnerNotificationData | null>(null);
   const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
 
+  const auctions = useMemo(() => {
+    const displayed = (auctionData ?? []).map((auction) => mapAuctionToDisplay(auction, {
+      bidCount: bidCounts[auction.id],
+      profiles,
+    }));
+    // Backends without server-side sorting order by the counts cached when the page was
+    // fetched; re-sort once this page's counts are in (stable, so server order breaks ties)
+    if (sortBy === 'most_bids') {
+      displayed.sort((a, b) => (bidCounts[b.id] ?? 0) - (bidCounts[a.id] ?? 0));
+    }
+    return displayed;
+  }, [auctionData, bidCounts, profiles, sortBy]);
+
+  // The price filter shows a currency only when every listed auction uses the same one
+  const listingCurrencies = new Set(auctions.map((auction) => auction.currentBid.currency));
+  const listingCurrency = listingCurrencies.size === 1 ? [...listingCurrencies][0] : undefined;
+
+  // Cached auctions stay on screen if a background refresh fails
+  const error = auctionData === undefined && loadError ? loadError.message : null;
+
   // Handle SSE events for real-time price updates
   const handleSSEEvent = (event: SSEEvent) => {
     console.log('SSE Event received:', event);
@@ -53,30 +171,34 @@ export default function AuctionsGrid({ currentUsername, user }: AuctionsGridProp
       case 'PriceUpdated':
         // Public event - update auction price in real-time
         if (event.data?.auctionId) {
-          setAuctions((prevAuctions) =>
-            prevAuctions.map((auction) => {
-              if (auction.id === event.data.auctionId) {
-                // Add visual feedback for updated auction
-                setUpdatedAuctionIds((prev) => new Set(prev).add(auction.id));
-
-                // Remove highlight after 3 seconds
-                setTimeout(() => {
-                  setUpdatedAuctionIds((prev) => {
-                    const newSet = new Set(prev);
-                    newSet.delete(auction.id);
-                    return newSet;
-                  });
-                }, 3000);
-
-                return {
-                  ...auction,
-                  currentBid: event.data.newPrice || event.data.amount || auction.currentBid,
-                  totalBids: event.data.bidCount !== undefined ? event.data.bidCount : auction.totalBids + 1,
-                };
-              }
-              return auction;
-            })
-          );
+          const auctionId: string = event.data.auctionId;
+          const auction = auctions.find((a) => a.id === auctionId);
+
+          if (auction) {
+            // Add visual feedback for updated auction
+            setUpdatedAuctionIds((prev) => new Set(prev).add(auctionId));
+
+            // Remove highlight after 3 seconds
+            setTimeout(() => {
+              setUpdatedAuctionIds((prev) => {
+                const newSet = new Set(prev);
+                newSet.delete(auctionId);
+                return newSet;
+              });
+            }, 3000);
+          }
+
+          // Patch the shared cache so every view sees the new price and bid count
+          updateCachedAuction(auctionId, (cached) => {
+            const price = getEventPrice(event.data.newPrice || event.data.amount, event.data.currency ?? cached.currency);
+            return { ...cached, currentPrice: price ? toMajorUnits(price) : cached.currentPrice };
+          });
+          // Price updates repeat a bid that already has its own event, so only bid events count
+          if (event.type !== 'price.updated' && event.type !== 'PriceUpdated') {
+            updateCachedBidCount(auctionId, (count) => (
+              event.data.bidCount !== undefined ? event.data.bidCount : count + getPlacedBidCount(event)
+            ));
+          }
         }
         break;
 
@@ -84,20 +206,48 @@ export default function AuctionsGrid({ currentUsername, user }: AuctionsGridProp
       case 'AuctionOpened':
         // Refresh auctions when a new auction is opened
         console.log('New auction opened, refreshing list...');
-        handleRefresh();
+        invalidateAuctionQueries();
         break;
 
       case 'auction.closed':
       case 'AuctionClosed':
-        // Update auction status to closed
+        // Show it ended right away, then refetch for the final price
+        // Older services send no status; the winner tells unsold from awaiting payment
         if (event.data?.auctionId) {
-          setAuctions((prevAuctions) =>
-            prevAuctions.map((auction) =>
-              auction.id === event.data.auctionId
-                ? { ...auction, status: 'closed' }
-                : auction
-            )
-          );
+          updateCachedAuction(event.data.auctionId, (cached) => ({
+            ...cached,
+            status: event.data.status ?? 'closed',
+            winnerId: event.data.winnerId ?? cached.winnerId,
+          }));
+          invalidateAuctionQueries();
+        }
+        break;
+
+      case 'auction.extended':
+      case 'AuctionExtended':
+        // A late bid pushed the end time back
+        if (event.data?.auctionId) {
+          updateCachedAuction(event.data.auctionId, (cached) => ({
+            ...cached,
+            status: 'extended',
+            endTime: event.data.endTime ?? cached.endTime,
+          }));
+        }
+        break;
+
+      case 'auction.started':
+      case 'AuctionStarted':
+      case 'auction.cancelled':
+      case 'AuctionCancelled':
+      case 'auction.paid':
+      case 'AuctionPaid':
+      case 'auction.payment_expired':
+      case 'AuctionPaymentExpired':
+      case 'auction.settled':
+      case 'AuctionSettled':
+        // Lifecycle moves that change nothing but the status
+        if (event.data?.auctionId && event.data.status) {
+          updateCachedAuction(event.data.auctionId, (cached) => ({ ...cached, status: event.data.status }));
         }
         break;
 
@@ -112,7 +262,7 @@ export default function AuctionsGrid({ currentUsername, user }: AuctionsGridProp
           setWinnerNotification({
             auctionId: event.data.auctionId,
             auctionTitle: auction?.title || 'Auction Item',
-            finalPrice: event.data.amount || auction?.currentBid || 0,
+            finalPrice: getFinalPrice(event.data.amount, event.data.currency, auction),
             paymentDeadline: event.data.paymentDeadline,
             sellerId: event.data.sellerId,
           });
@@ -122,26 +272,28 @@ export default function AuctionsGrid({ currentUsername, user }: AuctionsGridProp
         break;
 
       case 'auction.won':
-      case 'AuctionWon':
+      case 'AuctionWon': {
         // TARGETED EVENT - Only winner receives this
         // Event structure from auction service:
         // { type, recipientType, targetUsers, auctionId, itemName, finalPrice, winnerId, sellerId, wonAt, timestamp }
-        if ((event as any).winnerId && (event as any).winnerId === currentUsername) {
+        const wonEvent: AuctionWonEvent = event;
+        if (wonEvent.winnerId && wonEvent.winnerId === currentUsername) {
           // Find auction details from local state
-          const wonAuction = auctions.find((a) => a.id === (event as any).auctionId);
+          const wonAuction = auctions.find((a) => a.id === wonEvent.auctionId);
 
           // Show winner notification (without payment deadline since payment service isn't ready)
           setWinnerNotification({
-            auctionId: (event as any).auctionId || '',
-            auctionTitle: (event as any).itemName || wonAuction?.title || 'Auction Item',
-            finalPrice: (event as any).finalPrice || wonAuction?.currentBid || 0,
+            auctionId: wonEvent.auctionId || '',
+            auctionTitle: wonEvent.itemName || wonAuction?.title || 'Auction Item',
+            finalPrice: getFinalPrice(wonEvent.finalPrice, wonEvent.currency, wonAuction),
             paymentDeadline: undefined, // No deadline yet - payment service not integrated
-            sellerId: (event as any).sellerId || wonAuction?.sellerName || '',
+            sellerId: wonEvent.sellerId || wonAuction?.sellerId || '',
           });
 
-          console.log('Congratulations! You won auction:', (event as any).auctionId);
+          console.log('Congratulations! You won auction:', wonEvent.auctionId);
         }
         break;
+      }
 
       default:
         console.log('Unhandled event type:', event.type);
@@ -165,66 +317,24 @@ export default function AuctionsGrid({ currentUsername, user }: AuctionsGridProp
     debug: true,
   });
 
-  // Fetch auctions from API on component mount
-  useEffect(() => {
-    const fetchAuctions = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        const auctionData = await getAllAuctions();
-        // console.table(auctionData);
-        const displayAuctions = auctionData.map(mapAuctionToDisplay);
-        setAuctions(displayAuctions);
-      } catch (err) {
-        console.error('Error fetching auctions:', err);
-        setError(err instanceof Error ? err.message : 'Failed to load auctions');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchAuctions();
-  }, []);
-
-  // Refresh function for manual reload
-  const handleRefresh = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const auctionData = await getAllAuctions();
-      const displayAuctions = auctionData.map(mapAuctionToDisplay);
-      setAuctions(displayAuctions);
-    } catch (err) {
-      console.error('Error refreshing auctions:', err);
-      setError(err instanceof Error ? err.message : 'Failed to refresh auctions');
-    } finally {
-      setLoading(false);
-    }
+  // Any filter change starts again from the first page
+  const withFirstPage = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPageCursors([]);
   };
 
-  const filteredAuctions = auctions
-    .filter(auction => {
-      const matchesSearch = auction.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        auction.itemDescription.toLowerCase().includes(searchQuery.toLowerCase());
-      const matchesCategory = !selectedCategory || auction.category === selectedCategory;
-      return matchesSearch && matchesCategory;
-    })
-    .sort((a, b) => {
-      switch (sortBy) {
-        case 'ending_soon':
-          return new Date(a.auctionEndTime).getTime() - new Date(b.auctionEndTime).getTime();
-        case 'newest':
-          return new Date(b.auctionEndTime).getTime() - new Date(a.auctionEndTime).getTime();
-        case 'price_low':
-          return (a.currentBid || a.startingPrice) - (b.currentBid || b.startingPrice);
-        case 'price_high':
-          return (b.currentBid || b.startingPrice) - (a.currentBid || a.startingPrice);
-        case 'most_bids':
-          return b.totalBids - a.totalBids;
-        default:
-          return 0;
-      }
-    });
+  const clearFilters = () => {
+    setSearchQuery('');
+    setSelectedCategory('');
+    setSelectedStatus('');
+    setPriceRange({ min: '', max: '' });
+    setSortBy('ending_soon');
+    setPageCursors([]);
+  };
+
+  const hasActiveFilters = Boolean(
+    searchQuery || selectedCategory || selectedStatus || priceRange.min || priceRange.max
+  );
 
   return (
     <div className="space-y-6">
@@ -247,13 +357,18 @@ export default function AuctionsGrid({ currentUsername, user }: AuctionsGridProp
 
       {/* Search and Filter */}
       <SearchAndFilter
-        onSearch={setSearchQuery}
-        onCategoryChange={setSelectedCategory}
-        onSortChange={setSortBy}
+        onSearch={withFirstPage(setSearchQuery)}
+        onCategoryChange={withFirstPage(setSelectedCategory)}
+        onStatusChange={withFirstPage(setSelectedStatus)}
+        onPriceRangeChange={withFirstPage(setPriceRange)}
+        onSortChange={withFirstPage(setSortBy)}
         searchQuery={searchQuery}
         selectedCategory={selectedCategory}
+        selectedStatus={selectedStatus}
+        priceRange={priceRange}
         sortBy={sortBy}
-        resultsCount={filteredAuctions.length}
+        resultsCount={auctionPage?.total ?? auctions.length}
+        currency={listingCurrency}
       />
 
       {/* Loading State */}
@@ -262,6 +377,11 @@ export default function AuctionsGrid({ currentUsername, user }: AuctionsGridProp
           <h3 className="text-lg font-medium text-gray-900 mb-2">
             Loading auctions...
           </h3>
+          {retryProgress && (
+            <p className="text-sm text-amber-600">
+              Connection problem, retrying ({retryProgress.attempt}/{retryProgress.maxRetries})...
+            </p>
+          )}
         </div>
       )}
 
@@ -284,9 +404,9 @@ export default function AuctionsGrid({ currentUsername, user }: AuctionsGridProp
       )}
 
       {/* Auctions Grid */}
-      {!loading && !error && filteredAuctions.length > 0 && (
+      {!loading && !error && auctions.length > 0 && (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredAuctions.map((auction) => (
+          {auctions.map((auction) => (
             <AuctionCard
               key={auction.id}
               {...auction}
@@ -298,8 +418,32 @@ export default function AuctionsGrid({ currentUsername, user }: AuctionsGridProp
         </div>
       )}
 
+      {/* Pagination */}
+      {!loading && !error && (pageCursors.length > 0 || auctionPage?.hasMore) && (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setPageCursors((prev) => prev.slice(0, -1))}
+            disabled={pageCursors.length === 0}
+            className="px-4 py-2 text-sm font-medium border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-600">Page {pageCursors.length + 1}</span>
+          <button
+            onClick={() => {
+              const nextCursor = auctionPage?.nextCursor;
+              if (nextCursor) setPageCursors((prev) => [...prev, nextCursor]);
+            }}
+            disabled={!auctionPage?.hasMore || !auctionPage.nextCursor}
+            className="px-4 py-2 text-sm font-medium border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+          </button>
+        </div>
+      )}
+
       {/* No Results */}
-      {!loading && !error && filteredAuctions.length === 0 && auctions.length > 0 && (
+      {!loading && !error && auctions.length === 0 && hasActiveFilters && (
         <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
           <div className="text-6xl mb-4">🔍</div>
           <h3 className="text-lg font-medium text-gray-900 mb-2">
@@ -309,11 +453,7 @@ export default function AuctionsGrid({ currentUsername, user }: AuctionsGridProp
             Try adjusting your search criteria or browse all categories
           </p>
           <button
-            onClick={() => {
-              setSearchQuery('');
-              setSelectedCategory('');
-              setSortBy('ending_soon');
-            }}
+            onClick={clearFilters}
             className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
           >
             Clear Filters
@@ -322,7 +462,7 @@ export default function AuctionsGrid({ currentUsername, user }: AuctionsGridProp
       )}
 
       {/* No Auctions at All */}
-      {!loading && !error && auctions.length === 0 && (
+      {!loading && !error && auctions.length === 0 && !hasActiveFilters && (
         <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
           <h3 className="text-lg font-medium text-gray-900 mb-2">
             No auctions available
@@ -340,6 +480,7 @@ export default function AuctionsGrid({ currentUsername, user }: AuctionsGridProp
           auctionTitle={winnerNotification.auctionTitle}
           finalPrice={winnerNotification.finalPrice}
           paymentDeadline={winnerNotification.paymentDeadline}
+          sellerId={winnerNotification.sellerId}
           onPayNow={() => {
             setIsPaymentDialogOpen(true);
           }}
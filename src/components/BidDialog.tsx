@@ -1,13 +1,35 @@
 import { useState, useEffect } from 'react';
-import { placeBid } from '../services/biddingService';
+import {
+  addMoney,
+  compareMoney,
+  formatMoney,
+  getCurrencySymbol,
+  getErrorKind,
+  getPendingBidAttempt,
+  getRateLimitWait,
+  moneyFromMajor,
+  moneyFromMinor,
+  parseMoney,
+  placeBid,
+  ServiceError,
+  toDecimalString,
+  toMajorUnits,
+  type BidAttempt,
+  type Money,
+  type RetryProgress,
+} from '@biddergod/sdk';
+import { useCircuitState } from '../hooks/useCircuitState';
+
+// Quick increment buttons, in whole units of the auction's currency
+const QUICK_INCREMENTS = [1, 5, 10, 50];
 
 export interface BidDialogProps {
   isOpen: boolean;
   onClose: () => void;
   auctionId: string;
   auctionTitle: string;
-  currentBid: number;
-  startingPrice: number;
+  currentBid: Money;
+  startingPrice: Money;
   bidderId: string;
   onBidPlaced?: () => void;
 }
@@ -22,27 +44,63 @@ export default function BidDialog({
   bidderId,
   onBidPlaced,
 }: BidDialogProps) {
-  // Round to avoid floating point precision issues (e.g., 21009.00 + 1 = 21010.00, not 21010.001)
-  const minimumBid = currentBid > 0 ? Math.ceil(currentBid + 1) : Math.ceil(startingPrice);
-  const [bidAmount, setBidAmount] = useState<number>(minimumBid);
+  const currency = startingPrice.currency;
+  const hasBid = currentBid.amount > 0;
+  // One whole unit above the current bid
+  const minimumBid = hasBid ? addMoney(currentBid, moneyFromMajor(1, currency)) : startingPrice;
+  const minimumBidInput = toDecimalString(minimumBid);
+  // Kept as typed; parsed into minor units so nothing goes through floating point
+  const [bidInput, setBidInput] = useState(minimumBidInput);
+  const bidAmount = parseMoney(bidInput, currency);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Seconds left before bidding is allowed again after a 429
+  const [slowDownSeconds, setSlowDownSeconds] = useState(0);
+  const [retryProgress, setRetryProgress] = useState<RetryProgress | null>(null);
+  // Earlier bid whose outcome is unknown (timeout, lost connection, reload mid-request)
+  const [pendingAttempt, setPendingAttempt] = useState<BidAttempt | undefined>();
 
-  // Reset bid amount when dialog opens
+  // Reset bid amount when dialog opens, or pick up an unresolved attempt
   useEffect(() => {
     if (isOpen) {
-      setBidAmount(minimumBid);
+      const pending = bidderId ? getPendingBidAttempt(auctionId, bidderId) : undefined;
+      setPendingAttempt(pending);
+      setBidInput(pending ? toDecimalString(moneyFromMajor(pending.amount, currency)) : minimumBidInput);
       setError(null);
     }
-  }, [isOpen, minimumBid]);
+  }, [isOpen, minimumBidInput, currency, auctionId, bidderId]);
+
+  // Bid-command keeps failing: hold bids until its circuit breaker closes again
+  const biddingUnavailable = useCircuitState('BID_COMMAND') === 'open';
+
+  // Resubmitting the same amount reuses the earlier Idempotency-Key
+  const pendingAmount = pendingAttempt && moneyFromMajor(pendingAttempt.amount, currency);
+  const isResuming = pendingAmount !== undefined && bidAmount?.amount === pendingAmount.amount;
+
+  // Count down the "slow down" state
+  useEffect(() => {
+    if (slowDownSeconds <= 0) return;
+
+    const timer = setTimeout(() => {
+      setSlowDownSeconds(Math.ceil(getRateLimitWait('BID_COMMAND') / 1000));
+    }, 1000);
+
+    return () => clearTimeout(timer);
+  }, [slowDownSeconds]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
 
     // Validation
-    if (bidAmount < minimumBid) {
-      setError(`Bid must be at least $${minimumBid}`);
+    if (!bidAmount) {
+      setError('Enter a bid amount');
+      return;
+    }
+
+    // A resumed attempt may already be the current bid, the service answers it idempotently
+    if (compareMoney(bidAmount, minimumBid) < 0 && !isResuming) {
+      setError(`Bid must be at least ${formatMoney(minimumBid)}`);
       return;
     }
 
@@ -55,12 +113,12 @@ export default function BidDialog({
       setIsSubmitting(true);
 
       // Call bidding service API
-      const response = await placeBid(auctionId, bidderId, bidAmount);
+      const response = await placeBid(auctionId, bidderId, toMajorUnits(bidAmount), { onRetry: setRetryProgress });
 
       console.log('Bid placed successfully:', response);
 
       // Show success message
-      alert(`Bid placed successfully! Your bid: $${bidAmount}`);
+      alert(`Bid placed successfully! Your bid: ${formatMoney(bidAmount)}`);
 
       // Call parent callback to refresh auction data
       if (onBidPlaced) {
@@ -71,14 +129,31 @@ export default function BidDialog({
       onClose();
     } catch (err) {
       console.error('Failed to place bid:', err);
-      setError(err instanceof Error ? err.message : 'Failed to place bid. Please try again.');
+      switch (getErrorKind(err)) {
+        case 'rate-limited':
+          setSlowDownSeconds(Math.max(1, Math.ceil(getRateLimitWait('BID_COMMAND') / 1000)));
+          break;
+        case 'auth':
+          // Dialog stays open with the amount kept while the user signs in again
+          setError(err instanceof ServiceError && err.status === 403
+            ? 'You are not allowed to bid on this auction.'
+            : 'Your session has expired. Sign in again, then submit your bid. Your bid amount has been kept.');
+          break;
+        case 'conflict':
+          setError('Someone else bid first or the auction has changed. Check the current bid and try again.');
+          break;
+        default:
+          setError(err instanceof Error ? err.message : 'Failed to place bid. Please try again.');
+      }
     } finally {
       setIsSubmitting(false);
+      setRetryProgress(null);
+      setPendingAttempt(bidderId ? getPendingBidAttempt(auctionId, bidderId) : undefined);
     }
   };
 
   const handleIncrementBid = (increment: number) => {
-    setBidAmount((prev) => prev + increment);
+    setBidInput((prev) => toDecimalString(addMoney(parseMoney(prev, currency) ?? minimumBid, moneyFromMajor(increment, currency))));
   };
 
   if (!isOpen) return null;
@@ -97,13 +172,13 @@ export default function BidDialog({
           <div className="flex justify-between items-center mb-2">
             <span className="text-sm text-gray-600">Current Bid:</span>
             <span className="text-lg font-semibold text-gray-900">
-              ${currentBid > 0 ? currentBid.toLocaleString() : startingPrice.toLocaleString()}
+              {formatMoney(hasBid ? currentBid : startingPrice)}
             </span>
           </div>
           <div className="flex justify-between items-center">
             <span className="text-sm text-gray-600">Minimum Bid:</span>
             <span className="text-lg font-semibold text-indigo-600">
-              ${minimumBid.toLocaleString()}
+              {formatMoney(minimumBid)}
             </span>
           </div>
         </div>
@@ -117,24 +192,15 @@ export default function BidDialog({
             </label>
             <div className="relative">
               <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500 text-lg">
-                $
+                {getCurrencySymbol(currency)}
               </span>
               <input
                 type="number"
                 id="bidAmount"
-                value={bidAmount}
-                onChange={(e) => {
-                  const value = e.target.value;
-                  // If empty string, set to minimumBid, otherwise parse as number
-                  if (value === '' || value === null) {
-                    setBidAmount(minimumBid);
-                  } else {
-                    const numValue = parseFloat(value);
-                    setBidAmount(isNaN(numValue) ? minimumBid : numValue);
-                  }
-                }}
-                min={minimumBid}
-                step="1"
+                value={bidInput}
+                onChange={(e) => setBidInput(e.target.value)}
+                min={minimumBidInput}
+                step={toDecimalString(moneyFromMinor(1, currency))}
                 className="w-full pl-8 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-lg font-semibold"
                 required
               />
@@ -145,37 +211,50 @@ export default function BidDialog({
           <div className="mb-6">
             <p className="text-sm text-gray-600 mb-2">Quick increment:</p>
             <div className="flex gap-2">
-              <button
-                type="button"
-                onClick={() => handleIncrementBid(1)}
-                className="flex-1 py-2 px-3 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
-              >
-                +$1
-              </button>
-              <button
-                type="button"
-                onClick={() => handleIncrementBid(5)}
-                className="flex-1 py-2 px-3 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
-              >
-                +$5
-              </button>
-              <button
-                type="button"
-                onClick={() => handleIncrementBid(10)}
-                className="flex-1 py-2 px-3 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
-              >
-                +$10
-              </button>
-              <button
-                type="button"
-                onClick={() => handleIncrementBid(50)}
-                className="flex-1 py-2 px-3 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
-              >
-                +$50
-              </button>
+              {QUICK_INCREMENTS.map((increment) => (
+                <button
+                  key={increment}
+                  type="button"
+                  onClick={() => handleIncrementBid(increment)}
+                  className="flex-1 py-2 px-3 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  +{formatMoney(moneyFromMajor(increment, currency), { omitZeroFraction: true })}
+                </button>
+              ))}
             </div>
           </div>
 
+          {/* Bidding Unavailable */}
+          {biddingUnavailable && (
+            <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <p className="text-sm font-medium text-amber-800">Bidding temporarily unavailable</p>
+              <p className="text-sm text-amber-700">
+                The bidding service is not responding. Your bid amount is kept and you can submit it as soon as bidding is back.
+              </p>
+            </div>
+          )}
+
+          {/* Resumed Attempt */}
+          {isResuming && (
+            <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+              <p className="text-sm font-medium text-blue-800">Resuming previous bid attempt</p>
+              <p className="text-sm text-blue-700">
+                Your earlier bid of {formatMoney(pendingAmount)} may not have gone through.
+                Submitting again is safe, it will not be placed twice.
+              </p>
+            </div>
+          )}
+
+          {/* Slow Down State */}
+          {slowDownSeconds > 0 && (
+            <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <p className="text-sm font-medium text-amber-800">Slow down</p>
+              <p className="text-sm text-amber-700">
+                Too many bids in a short time. You can bid again in {slowDownSeconds}s.
+              </p>
+            </div>
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
@@ -195,10 +274,12 @@ export default function BidDialog({
             </button>
             <button
               type="submit"
-              disabled={isSubmitting}
+              disabled={isSubmitting || slowDownSeconds > 0 || biddingUnavailable}
               className="flex-1 py-3 px-4 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isSubmitting ? 'Placing Bid...' : 'Place Bid'}
+              {isSubmitting
+                ? retryProgress ? `Retrying (${retryProgress.attempt}/${retryProgress.maxRetries})...` : 'Placing Bid...'
+                : slowDownSeconds > 0 ? `Wait ${slowDownSeconds}s` : isResuming ? 'Resume Bid' : 'Place Bid'}
             </button>
           </div>
         </form>
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { normalizeAuctionImages, ServiceError, type AuctionImage } from '@biddergod/sdk';
 
 interface CreateAuctionDialogProps {
   isOpen: boolean;
@@ -13,7 +14,7 @@ export interface AuctionFormData {
   category: string;
   condition: string;
   auctionEndTime: string;
-  imageUrls: string[];
+  images: AuctionImage[];
 }
 
 export default function CreateAuctionDialog({ isOpen, onClose, onSubmit }: CreateAuctionDialogProps) {
@@ -24,17 +25,20 @@ export default function CreateAuctionDialog({ isOpen, onClose, onSubmit }: Creat
     category: '',
     condition: 'good',
     auctionEndTime: '',
-    imageUrls: []
+    images: []
   });
 
   const [imageUrl, setImageUrl] = useState('');
+  const [imageAltText, setImageAltText] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
 
   if (!isOpen) return null;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
+    setSubmitError(null);
     try {
       await onSubmit(formData);
       // Reset form only on success
@@ -45,32 +49,58 @@ export default function CreateAuctionDialog({ isOpen, onClose, onSubmit }: Creat
         category: '',
         condition: 'good',
         auctionEndTime: '',
-        imageUrls: []
+        images: []
       });
       setImageUrl('');
+      setImageAltText('');
       onClose();
     } catch (error) {
-      // Error is already handled by parent, just don't close the dialog
+      // Keep the dialog open so the seller doesn't lose the form
       console.error('Error submitting auction:', error);
+      setSubmitError(getCreateAuctionErrorMessage(error));
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const addImageUrl = () => {
-    if (imageUrl.trim()) {
+  const addImage = () => {
+    const url = imageUrl.trim();
+    if (url) {
+      const image: AuctionImage = {
+        url,
+        position: formData.images.length,
+        altText: imageAltText.trim() || undefined,
+        isPrimary: formData.images.length === 0,
+      };
       setFormData({
         ...formData,
-        imageUrls: [...formData.imageUrls, imageUrl.trim()]
+        images: [...formData.images, image]
       });
       setImageUrl('');
+      setImageAltText('');
+
+      // Dimensions are filled in once the browser has loaded the image
+      void measureImage(url).then((size) => {
+        if (!size) return;
+        setFormData((current) => ({
+          ...current,
+          images: current.images.map((existing) => (existing.url === url ? { ...existing, ...size } : existing))
+        }));
+      });
     }
   };
 
   const removeImage = (index: number) => {
     setFormData({
       ...formData,
-      imageUrls: formData.imageUrls.filter((_, i) => i !== index)
+      images: normalizeAuctionImages(formData.images.filter((_, i) => i !== index))
+    });
+  };
+
+  const makePrimary = (index: number) => {
+    setFormData({
+      ...formData,
+      images: formData.images.map((image, i) => ({ ...image, isPrimary: i === index }))
     });
   };
 
@@ -190,10 +220,10 @@ export default function CreateAuctionDialog({ isOpen, onClose, onSubmit }: Creat
               />
             </div>
 
-            {/* Image URLs */}
+            {/* Images */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Image URLs (optional)
+                Images (optional)
               </label>
               <div className="flex gap-2">
                 <input
@@ -203,19 +233,40 @@ export default function CreateAuctionDialog({ isOpen, onClose, onSubmit }: Creat
                   className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
                   placeholder="https://example.com/image.jpg"
                 />
+                <input
+                  type="text"
+                  value={imageAltText}
+                  onChange={(e) => setImageAltText(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  placeholder="Description for screen readers"
+                />
                 <button
                   type="button"
-                  onClick={addImageUrl}
+                  onClick={addImage}
                   className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
                 >
                   Add
                 </button>
               </div>
-              {formData.imageUrls.length > 0 && (
+              {formData.images.length > 0 && (
                 <div className="mt-2 space-y-1">
-                  {formData.imageUrls.map((url, index) => (
+                  {formData.images.map((image, index) => (
                     <div key={index} className="flex items-center gap-2 text-sm">
-                      <span className="flex-1 truncate text-gray-600">{url}</span>
+                      <span className="flex-1 truncate text-gray-600">
+                        {image.url}
+                        {image.altText && <span className="text-gray-400"> ({image.altText})</span>}
+                      </span>
+                      {image.isPrimary ? (
+                        <span className="text-xs font-medium text-indigo-600">Primary</span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => makePrimary(index)}
+                          className="text-indigo-600 hover:text-indigo-800"
+                        >
+                          Make primary
+                        </button>
+                      )}
                       <button
                         type="button"
                         onClick={() => removeImage(index)}
@@ -229,6 +280,13 @@ export default function CreateAuctionDialog({ isOpen, onClose, onSubmit }: Creat
               )}
             </div>
 
+            {/* Error Message */}
+            {submitError && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-sm text-red-600">{submitError}</p>
+              </div>
+            )}
+
             {/* Actions */}
             <div className="flex gap-3 pt-4">
               <button
@@ -252,4 +310,36 @@ export default function CreateAuctionDialog({ isOpen, onClose, onSubmit }: Creat
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Turn a failed create call into the message shown in the dialog
+ */
+function getCreateAuctionErrorMessage(error: unknown): string {
+  if (!(error instanceof ServiceError)) {
+    return `Failed to create auction: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+
+  switch (error.kind) {
+    case 'auth':
+      return error.status === 403
+        ? 'Your account is not allowed to create auctions.'
+        : 'Your session has expired. Please sign in again to create an auction.';
+    case 'validation':
+      return `Please check the auction details: ${error.message}`;
+    default:
+      return `Failed to create auction: ${error.message}`;
+  }
+}
+
+/**
+ * Natural size of an image, undefined when it can't be loaded
+ */
+function measureImage(url: string): Promise<Pick<AuctionImage, 'width' | 'height'> | undefined> {
+  return new Promise((resolve) => {
+    const image = new Image();
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = () => resolve(undefined);
+    image.src = url;
+  });
+}
@@ -1,13 +1,38 @@
 import {useState, useEffect, useRef} from "react";
 import type {AuthUser} from "aws-amplify/auth";
 import { v4 as uuidv4 } from 'uuid';
-import { API_ENDPOINTS } from '../config/api';
+import { API_ENDPOINTS, type ServiceName } from '../config/api';
 import { useSSE, type SSEEvent } from '../hooks/useSSE';
+import MetricsPanel from './MetricsPanel';
+import {
+    findRequestForEvent,
+    getContractViolations,
+    getEventCorrelationIds,
+    onContractViolation,
+    onRequestFinished,
+    parseRetryAfter,
+    pauseService,
+    recordRequestEnd,
+    recordRequestStart,
+    reserveRequestSlot,
+    sleep,
+    type ContractViolation
+} from '@biddergod/sdk';
 
 interface DevConsoleProps {
     user: AuthUser | null;
 }
 
+// Console labels -> rate-limit buckets, so console traffic shares the app's limits
+const SERVICE_KEYS: Record<string, ServiceName> = {
+    'Auction Service': 'AUCTION_SERVICE',
+    'Bid-Command Service': 'BID_COMMAND',
+    'Bid-Query Service': 'BID_QUERY',
+};
+
+// Request log action for the console's own calls, which it already reports itself
+const CONSOLE_ACTION = 'dev console request';
+
 interface ConsoleMessage {
     id: number;
     timestamp: string;
@@ -42,6 +67,15 @@ export default function DevConsole({user}: DevConsoleProps) {
         // Format the event data for display
         const formattedData = JSON.stringify(event, null, 2);
         addMessage('sse', formattedData);
+
+        // Link the event to the request that caused it, when the backend forwarded an ID
+        const correlationIds = getEventCorrelationIds(event);
+        if (correlationIds.length > 0) {
+            const cause = findRequestForEvent(event);
+            addMessage('sse', cause
+                ? `↳ ${event.type} caused by [${cause.method}] ${cause.action} (Request ID: ${cause.requestId}), ${Date.now() - Date.parse(cause.startedAt)}ms after it was sent`
+                : `↳ ${event.type} correlation ID ${correlationIds[0]} does not match any request from this browser`);
+        }
     };
 
     // Use the authenticated SSE hook
@@ -95,11 +129,71 @@ export default function DevConsole({user}: DevConsoleProps) {
         }
     }, [connectionError]);
 
+    // Show responses that failed schema validation, including ones from before the console opened
+    useEffect(() => {
+        const showViolation = (violation: ContractViolation) => {
+            addMessage('error', `Contract violation: ${violation.service} response to "${violation.action}" (${violation.url}) did not match its schema [${new Date(violation.timestamp).toLocaleTimeString()}]\n${violation.issues.map(issue => `- ${issue}`).join('\n')}\nPayload:\n${JSON.stringify(violation.payload, null, 2)}`);
+        };
+
+        getContractViolations().forEach(showViolation);
+        return onContractViolation(showViolation);
+    }, []);
+
+    // Show the app's failed calls with their request IDs, for finding them in the backend logs
+    useEffect(() => {
+        return onRequestFinished((entry) => {
+            if (entry.error && entry.action !== CONSOLE_ACTION) {
+                addMessage('error', `${entry.service} failed to ${entry.action} [${entry.method}] ${entry.url}${entry.status ? ` (${entry.status})` : ''}: ${entry.error}\nRequest ID: ${entry.requestId}`);
+            }
+        });
+    }, []);
+
+    // Send a console call with its own X-Request-ID and log it, so SSE events can be linked back to it
+    const sendTracedRequest = async (serviceName: string, endpoint: string, options: RequestInit & { headers: Record<string, string> }) => {
+        const requestId = uuidv4();
+        recordRequestStart({
+            requestId,
+            service: SERVICE_KEYS[serviceName],
+            method: options.method ?? 'GET',
+            url: endpoint,
+            action: CONSOLE_ACTION,
+            idempotencyKey: options.headers['Idempotency-Key'],
+        });
+        addMessage('info', `Request ID: ${requestId}`);
+
+        try {
+            const response = await fetch(endpoint, {
+                ...options,
+                headers: { ...options.headers, 'X-Request-ID': requestId },
+            });
+            recordRequestEnd(requestId, { status: response.status });
+            return response;
+        } catch (error) {
+            recordRequestEnd(requestId, { error: String(error) });
+            throw error;
+        }
+    };
+
+    // Client-side rate limit: queue short waits, refuse long ones
+    const waitForRateLimit = async (serviceName: string): Promise<boolean> => {
+        const delay = reserveRequestSlot(SERVICE_KEYS[serviceName]);
+        if (delay === null) {
+            addMessage('error', `${serviceName} rate limit reached locally. Slow down and try again in a few seconds.`);
+            return false;
+        }
+        if (delay > 0) {
+            addMessage('info', `${serviceName} rate limit: request queued for ${Math.ceil(delay / 1000)}s`);
+            await sleep(delay);
+        }
+        return true;
+    };
+
     // API Request Functions
     const makeRequest = async (serviceName: string, endpoint: string, method: string = 'GET', body?: object) => {
         addMessage('info', `[${method}] ${serviceName} -> ${endpoint}`);
+        if (!(await waitForRateLimit(serviceName))) return;
         try {
-            const options: RequestInit = {
+            const options: RequestInit & { headers: Record<string, string> } = {
                 method,
                 headers: {
                     'Content-Type': 'application/json',
@@ -110,7 +204,14 @@ export default function DevConsole({user}: DevConsoleProps) {
                 options.body = JSON.stringify(body);
             }
 
-            const response = await fetch(endpoint, options);
+            const response = await sendTracedRequest(serviceName, endpoint, options);
+
+            if (response.status === 429) {
+                const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+                if (retryAfterMs !== undefined) {
+                    pauseService(SERVICE_KEYS[serviceName], retryAfterMs);
+                }
+            }
 
             // Try to parse JSON, fallback to text if it fails
             let data;
@@ -217,8 +318,9 @@ export default function DevConsole({user}: DevConsoleProps) {
         headers?: Record<string, string>
     ) => {
         addMessage('info', `[${method}] ${serviceName} -> ${endpoint}`);
+        if (!(await waitForRateLimit(serviceName))) return;
         try {
-            const options: RequestInit = {
+            const options: RequestInit & { headers: Record<string, string> } = {
                 method,
                 headers: {
                     'Content-Type': 'application/json',
@@ -230,7 +332,14 @@ export default function DevConsole({user}: DevConsoleProps) {
                 options.body = JSON.stringify(body);
             }
 
-            const response = await fetch(endpoint, options);
+            const response = await sendTracedRequest(serviceName, endpoint, options);
+
+            if (response.status === 429) {
+                const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+                if (retryAfterMs !== undefined) {
+                    pauseService(SERVICE_KEYS[serviceName], retryAfterMs);
+                }
+            }
 
             // Try to parse JSON, fallback to text if it fails
             let data;
@@ -612,6 +721,9 @@ export default function DevConsole({user}: DevConsoleProps) {
                             </div>
                         </div>
                     </div>
+
+                    {/* Client-side API and SSE metrics */}
+                    <MetricsPanel />
                 </div>
 
                 {/* Right Column: Console Output */}
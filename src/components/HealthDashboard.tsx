@@ -0,0 +1,255 @@
+import { useEffect, useState } from 'react';
+import { RATE_LIMITS, SERVICE_LABELS, type ServiceName } from '../config/api';
+import {
+  getCircuitState,
+  getRateLimitRemaining,
+  onCircuitStateChange,
+  type CircuitState,
+} from '@biddergod/sdk';
+import {
+  checkAllServices,
+  getGatewayStatus,
+  getHealthHistory,
+  getHealthUrl,
+  isDirectCheckEnabled,
+  onHealthCheck,
+  type HealthCheck,
+  type HealthRoute,
+  type HealthStatus,
+} from '../services/healthMonitor';
+
+// How often every service is checked while the tab is open
+const CHECK_INTERVAL_MS = 10000;
+
+const SERVICES = Object.keys(SERVICE_LABELS) as ServiceName[];
+
+const STATUS_STYLES: Record<HealthStatus, { badge: string; bar: string; label: string }> = {
+  up: { badge: 'bg-green-100 text-green-800', bar: 'bg-green-500', label: 'Up' },
+  down: { badge: 'bg-red-100 text-red-800', bar: 'bg-red-500', label: 'Down' },
+  unreachable: { badge: 'bg-gray-200 text-gray-800', bar: 'bg-gray-400', label: 'Unreachable' },
+};
+
+const CIRCUIT_STYLES: Record<CircuitState, string> = {
+  closed: 'text-green-700',
+  'half-open': 'text-amber-700',
+  open: 'text-red-700',
+};
+
+function StatusCell({ service, route }: { service: ServiceName; route: HealthRoute }) {
+  if (!getHealthUrl(service, route)) {
+    return <span className="text-xs text-gray-400">No health endpoint</span>;
+  }
+
+  const checks = getHealthHistory(service, route);
+  const latest = checks[checks.length - 1];
+
+  return (
+    <div className="space-y-1">
+      {latest ? (
+        <div className="flex items-center gap-2">
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[latest.status].badge}`}>
+            {STATUS_STYLES[latest.status].label}
+          </span>
+          <span className="text-xs text-gray-600">
+            {latest.latencyMs} ms{latest.httpStatus ? ` · ${latest.httpStatus}` : ''}
+          </span>
+        </div>
+      ) : (
+        <span className="text-xs text-gray-400">Checking...</span>
+      )}
+      <Timeline checks={checks} />
+    </div>
+  );
+}
+
+/**
+ * One bar per recorded check, oldest on the left
+ */
+function Timeline({ checks }: { checks: HealthCheck[] }) {
+  return (
+    <div className="flex items-end gap-px h-4">
+      {checks.map((check) => (
+        <div
+          key={check.checkedAt}
+          className={`w-1.5 h-full rounded-sm ${STATUS_STYLES[check.status].bar}`}
+          title={`${new Date(check.checkedAt).toLocaleTimeString()}: ${STATUS_STYLES[check.status].label}, ${check.latencyMs} ms${check.error ? ` (${check.error})` : ''}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+function getLastError(service: ServiceName): HealthCheck | undefined {
+  return (['gateway', 'direct'] as HealthRoute[])
+    .flatMap((route) => getHealthHistory(service, route))
+    .filter((check) => check.error)
+    .sort((a, b) => b.checkedAt - a.checkedAt)[0];
+}
+
+function RateLimitCell({ service }: { service: ServiceName }) {
+  const limit = RATE_LIMITS[service];
+  if (!Number.isFinite(limit)) {
+    return <span className="text-xs text-gray-500">Unlimited</span>;
+  }
+
+  const gatewayChecks = getHealthHistory(service, 'gateway');
+  const gatewayReport = [...gatewayChecks].reverse().find((check) => check.gatewayRateLimitRemaining !== undefined);
+
+  return (
+    <div className="text-xs text-gray-700 space-y-0.5">
+      <div>Client: {getRateLimitRemaining(service)}/{limit} per min</div>
+      {gatewayReport && (
+        <div>
+          Kong: {gatewayReport.gatewayRateLimitRemaining}
+          {gatewayReport.gatewayRateLimitLimit !== undefined && `/${gatewayReport.gatewayRateLimitLimit}`} per min
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Service Health Dashboard
+ * Checks every service through Kong (and directly, in development) on an interval
+ * and shows status, latency, last error, circuit state and rate-limit headroom
+ */
+export default function HealthDashboard() {
+  const [, setRevision] = useState(0);
+  const [checking, setChecking] = useState(false);
+  const [lastCheckedAt, setLastCheckedAt] = useState<number | null>(null);
+  const directEnabled = isDirectCheckEnabled();
+
+  const runChecks = async () => {
+    setChecking(true);
+    try {
+      await checkAllServices();
+      setLastCheckedAt(Date.now());
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  useEffect(() => {
+    const rerender = () => setRevision((revision) => revision + 1);
+    const unsubscribeHealth = onHealthCheck(rerender);
+    const unsubscribeCircuit = onCircuitStateChange(rerender);
+
+    runChecks();
+    const intervalId = setInterval(runChecks, CHECK_INTERVAL_MS);
+
+    return () => {
+      clearInterval(intervalId);
+      unsubscribeHealth();
+      unsubscribeCircuit();
+    };
+  }, []);
+
+  const gatewayStatus = getGatewayStatus();
+  const downServices = SERVICES.filter((service) => {
+    const checks = getHealthHistory(service, 'gateway');
+    return checks[checks.length - 1]?.status === 'down';
+  });
+
+  return (
+    <div className="space-y-4">
+      {/* Summary */}
+      <div className="bg-white rounded-lg shadow-sm p-4 border border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-md font-bold text-gray-900">Service health</h2>
+          <p className="text-sm mt-1">
+            {gatewayStatus === 'unknown' && <span className="text-gray-500">Checking Kong gateway...</span>}
+            {gatewayStatus === 'down' && (
+              <span className="text-red-700 font-medium">
+                Kong gateway is not responding: no service could be reached through it
+              </span>
+            )}
+            {gatewayStatus === 'up' && downServices.length === 0 && (
+              <span className="text-green-700">Kong gateway and all checked services are up</span>
+            )}
+            {gatewayStatus === 'up' && downServices.length > 0 && (
+              <span className="text-red-700">
+                Kong gateway is up; {downServices.map((service) => SERVICE_LABELS[service]).join(', ')}{' '}
+                {downServices.length === 1 ? 'is' : 'are'} down behind it
+              </span>
+            )}
+          </p>
+          {!directEnabled && (
+            <p className="text-xs text-gray-500 mt-1">Direct checks bypassing Kong are only available in development.</p>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {lastCheckedAt && (
+            <span className="text-xs text-gray-500">Last checked {new Date(lastCheckedAt).toLocaleTimeString()}</span>
+          )}
+          <button
+            onClick={runChecks}
+            disabled={checking}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {checking ? 'Checking...' : 'Check now'}
+          </button>
+        </div>
+      </div>
+
+      {/* Per-service status */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Service</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Through Kong</th>
+              {directEnabled && (
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Direct</th>
+              )}
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Circuit</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Rate-limit headroom</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Last error</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {SERVICES.map((service) => {
+              const circuitState = getCircuitState(service);
+              const lastError = getLastError(service);
+
+              return (
+                <tr key={service}>
+                  <td className="px-4 py-3 align-top">
+                    <div className="text-sm font-medium text-gray-900">{SERVICE_LABELS[service]}</div>
+                    <div className="text-xs text-gray-500 font-mono">{service}</div>
+                  </td>
+                  <td className="px-4 py-3 align-top">
+                    <StatusCell service={service} route="gateway" />
+                  </td>
+                  {directEnabled && (
+                    <td className="px-4 py-3 align-top">
+                      <StatusCell service={service} route="direct" />
+                    </td>
+                  )}
+                  <td className={`px-4 py-3 align-top text-sm font-medium ${CIRCUIT_STYLES[circuitState]}`}>
+                    {circuitState}
+                  </td>
+                  <td className="px-4 py-3 align-top">
+                    <RateLimitCell service={service} />
+                  </td>
+                  <td className="px-4 py-3 align-top text-xs text-gray-700 max-w-xs">
+                    {lastError ? (
+                      <>
+                        <div className="text-red-700 break-words">{lastError.error}</div>
+                        <div className="text-gray-500">
+                          {lastError.route === 'gateway' ? 'Through Kong' : 'Direct'},{' '}
+                          {new Date(lastError.checkedAt).toLocaleTimeString()}
+                        </div>
+                      </>
+                    ) : (
+                      <span className="text-gray-400">None</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
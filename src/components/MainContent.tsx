@@ -2,9 +2,11 @@ import {useState} from "react";
 import AuctionsGrid from "./AuctionsGrid";
 // import ApiTestingInterface from "./ApiTestUi/ApiTestingInterface.tsx";
 import DevConsole from "./DevConsole";
+import HealthDashboard from "./HealthDashboard";
 import CreateAuctionDialog, { type AuctionFormData } from "./CreateAuctionDialog";
 import UserProfile from "./UserProfile";
-import { createAuction } from "../services/auctionService";
+import ServiceStatusBanner from "./ServiceStatusBanner";
+import { createAuction } from "@biddergod/sdk";
 import type { UserWithEmail } from "../App";
 
 interface MainContentProps {
@@ -16,7 +18,6 @@ interface MainContentProps {
 export default function MainContent({user, handleSignOut, setShowAuth}: MainContentProps) {
     const [activeTab, setActiveTab] = useState("home");
     const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
-    const [auctionGridKey, setAuctionGridKey] = useState(0);
 
     const handleCreateAuction = async (auctionData: AuctionFormData) => {
         try {
@@ -29,27 +30,23 @@ export default function MainContent({user, handleSignOut, setShowAuth}: MainCont
                 itemName: auctionData.title,
                 itemDescription: auctionData.description,
                 startingPrice: auctionData.startingPrice,
-                sellerId: user?.username || 'anonymous', // Use authenticated user
                 category: auctionData.category,
                 condition: auctionData.condition,
-                imageUrls:  auctionData.imageUrls.join(','),
+                images: auctionData.images,
                 startTime,
                 endTime,
             };
 
+            // Cached auction lists are refreshed by the service after a create
             await createAuction(requestData);
 
-            // change grid key to refresh
-            setAuctionGridKey(prev => prev + 1);
-
             // Show success notification
             console.log('Auction created successfully!');
             alert('Auction created successfully!');
 
         } catch (error) {
             console.error('Failed to create auction:', error);
-            alert(`Failed to create auction: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            throw error; // Re-throw to let dialog handle it if needed
+            throw error; // Re-throw so the dialog can show the failure
         }
     };
 
@@ -131,10 +128,23 @@ export default function MainContent({user, handleSignOut, setShowAuth}: MainCont
                         >
                             DevConsole
                         </button>
+                        <button
+                            onClick={() => setActiveTab("health")}
+                            className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                                activeTab === "health"
+                                    ? 'border-indigo-500 text-indigo-600'
+                                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                            }`}
+                        >
+                            Health
+                        </button>
                     </div>
                 </div>
             </nav>
 
+            {/* Degraded services */}
+            <ServiceStatusBanner />
+
             {/* Create Auction Button - Only show on Auctions tab */}
             {activeTab === "home" && (
                 <div className="bg-white border-b border-gray-200">
@@ -153,10 +163,11 @@ export default function MainContent({user, handleSignOut, setShowAuth}: MainCont
 
             {/* Main Content */}
             <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-                {activeTab === "home" && <AuctionsGrid key={auctionGridKey} currentUsername={user?.username} user={user} />}
+                {activeTab === "home" && <AuctionsGrid currentUsername={user?.username} user={user} />}
                 {activeTab === "profile" && user && <UserProfile user={user} />}
                 {/*{activeTab === "api" && <ApiTestingInterface user={user} />}*/}
                 {activeTab === "dev" && <DevConsole user={user} />}
+                {activeTab === "health" && <HealthDashboard />}
             </main>
 
             {/* Create Auction Dialog */}
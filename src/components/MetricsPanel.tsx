@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { SERVICE_LABELS } from '../config/api';
+import { flushMetrics, getMetricsSnapshot, type MetricsSnapshot } from '@biddergod/sdk';
+
+// How often the panel re-reads the collector
+const REFRESH_INTERVAL_MS = 2000;
+
+function formatMs(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+}
+
+/**
+ * Metrics Panel
+ * Live client-side API latency, error rates and SSE stream health, for the DevConsole
+ */
+export default function MetricsPanel() {
+  const [snapshot, setSnapshot] = useState<MetricsSnapshot>(getMetricsSnapshot);
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setSnapshot(getMetricsSnapshot()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const { endpoints, stream } = snapshot;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4 border border-gray-200">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-900">Client Metrics</h3>
+        <button
+          onClick={() => flushMetrics(true)}
+          className="px-2 py-1 text-xs font-medium text-indigo-700 bg-indigo-100 rounded hover:bg-indigo-200 transition-colors"
+          title="Send the current snapshot to every exporter now"
+        >
+          Export now
+        </button>
+      </div>
+
+      <div className="text-xs text-gray-600 bg-gray-50 p-2 rounded border border-gray-200 mb-3 space-y-0.5">
+        <div>
+          <strong>SSE:</strong> {stream.connects} connects, {stream.reconnects} reconnects, {stream.errors} errors
+        </div>
+        <div>
+          <strong>Event lag:</strong> p50 {formatMs(stream.lagP50Ms)}, p95 {formatMs(stream.lagP95Ms)}, max{' '}
+          {formatMs(stream.lagMaxMs)} over {stream.events} events
+        </div>
+      </div>
+
+      {endpoints.length === 0 ? (
+        <p className="text-xs text-gray-500">No API calls recorded yet.</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1 font-medium">Endpoint</th>
+              <th className="py-1 font-medium text-right">Calls</th>
+              <th className="py-1 font-medium text-right">Errors</th>
+              <th className="py-1 font-medium text-right">p50</th>
+              <th className="py-1 font-medium text-right">p95</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {endpoints.map((endpoint) => (
+              <tr key={`${endpoint.service} ${endpoint.method} ${endpoint.operation}`}>
+                <td className="py-1 pr-2">
+                  <div className="text-gray-900">{endpoint.operation}</div>
+                  <div className="text-gray-500">{SERVICE_LABELS[endpoint.service]} · {endpoint.method}</div>
+                </td>
+                <td className="py-1 text-right text-gray-700">{endpoint.count}</td>
+                <td className={`py-1 text-right ${endpoint.errorRate > 0 ? 'text-red-600' : 'text-gray-700'}`}>
+                  {(endpoint.errorRate * 100).toFixed(0)}%
+                </td>
+                <td className="py-1 text-right text-gray-700">{formatMs(endpoint.p50Ms)}</td>
+                <td className="py-1 text-right text-gray-700">{formatMs(endpoint.p95Ms)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
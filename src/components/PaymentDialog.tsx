@@ -1,12 +1,22 @@
 import { useState } from 'react';
-import { createPaymentIntent, confirmPayment, type PaymentIntent } from '../services/paymentService';
+import {
+  createPaymentIntent,
+  confirmPayment,
+  formatMoney,
+  getErrorKind,
+  type Money,
+  type PaymentIntent,
+} from '@biddergod/sdk';
+import { useCircuitState } from '../hooks/useCircuitState';
+
+const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Sign in again, then continue. Your payment progress has been kept.';
 
 export interface PaymentDialogProps {
   isOpen: boolean;
   onClose: () => void;
   auctionId: string;
   auctionTitle: string;
-  amount: number;
+  amount: Money;
   sellerId: string;
   onPaymentSuccess?: () => void;
 }
@@ -32,6 +42,7 @@ export function PaymentDialog({
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [step, setStep] = useState<'init' | 'payment' | 'success'>('init');
+  const paymentsUnavailable = useCircuitState('PAYMENT_SERVICE') === 'open';
 
   // Test card details (for development only)
   const [cardNumber, setCardNumber] = useState('4242424242424242');
@@ -50,7 +61,9 @@ export function PaymentDialog({
       setStep('payment');
     } catch (err) {
       console.error('Failed to create payment intent:', err);
-      setError(err instanceof Error ? err.message : 'Failed to initiate payment');
+      setError(getErrorKind(err) === 'auth'
+        ? SESSION_EXPIRED_MESSAGE
+        : err instanceof Error ? err.message : 'Failed to initiate payment');
     } finally {
       setIsProcessing(false);
     }
@@ -85,7 +98,9 @@ export function PaymentDialog({
       }
     } catch (err) {
       console.error('Payment failed:', err);
-      setError(err instanceof Error ? err.message : 'Payment failed');
+      setError(getErrorKind(err) === 'auth'
+        ? SESSION_EXPIRED_MESSAGE
+        : err instanceof Error ? err.message : 'Payment failed');
     } finally {
       setIsProcessing(false);
     }
@@ -139,15 +154,25 @@ export function PaymentDialog({
                 <div className="flex justify-between items-baseline">
                   <span className="text-gray-600">Total Amount</span>
                   <span className="text-3xl font-bold text-indigo-600">
-                    ${amount.toLocaleString()}
+                    {formatMoney(amount)}
                   </span>
                 </div>
               </div>
 
+              {/* Payments Unavailable */}
+              {paymentsUnavailable && <PaymentsUnavailableNotice />}
+
+              {/* Error Message */}
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              )}
+
               {/* Initiate Button */}
               <button
                 onClick={handleInitiatePayment}
-                disabled={isProcessing}
+                disabled={isProcessing || paymentsUnavailable}
                 className="w-full py-3 px-4 bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isProcessing ? 'Processing...' : 'Continue to Payment'}
@@ -163,7 +188,7 @@ export function PaymentDialog({
                 <div className="flex justify-between items-baseline">
                   <span className="text-indigo-900 font-medium">Amount to Pay</span>
                   <span className="text-2xl font-bold text-indigo-600">
-                    ${amount.toLocaleString()}
+                    {formatMoney(amount)}
                   </span>
                 </div>
               </div>
@@ -239,6 +264,9 @@ export function PaymentDialog({
                 </div>
               </div>
 
+              {/* Payments Unavailable */}
+              {paymentsUnavailable && <PaymentsUnavailableNotice />}
+
               {/* Error Message */}
               {error && (
                 <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -249,10 +277,10 @@ export function PaymentDialog({
               {/* Pay Button */}
               <button
                 onClick={handleProcessPayment}
-                disabled={isProcessing}
+                disabled={isProcessing || paymentsUnavailable}
                 className="w-full py-3 px-4 bg-green-600 hover:bg-green-700 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {isProcessing ? 'Processing Payment...' : `Pay $${amount.toLocaleString()}`}
+                {isProcessing ? 'Processing Payment...' : `Pay ${formatMoney(amount)}`}
               </button>
             </div>
           )}
@@ -275,7 +303,7 @@ export function PaymentDialog({
                   Payment Successful!
                 </h3>
                 <p className="text-gray-600">
-                  Your payment of ${amount.toLocaleString()} has been processed successfully.
+                  Your payment of {formatMoney(amount)} has been processed successfully.
                 </p>
               </div>
 
@@ -288,7 +316,7 @@ export function PaymentDialog({
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Amount Paid</span>
-                    <span className="font-medium text-gray-900">${amount.toLocaleString()}</span>
+                    <span className="font-medium text-gray-900">{formatMoney(amount)}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Transaction ID</span>
@@ -312,4 +340,18 @@ export function PaymentDialog({
   );
 }
 
+/**
+ * Shown while the payment service's circuit breaker is open
+ */
+function PaymentsUnavailableNotice() {
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+      <p className="text-sm font-medium text-amber-800">Payments temporarily unavailable</p>
+      <p className="text-sm text-amber-700">
+        The payment service is not responding. Nothing has been charged, and you can pay as soon as it is back.
+      </p>
+    </div>
+  );
+}
+
 export default PaymentDialog;
\ No newline at end of file
@@ -0,0 +1,80 @@
+import {useEffect, useState} from "react";
+import {Authenticator} from "@aws-amplify/ui-react";
+import {signOut} from "aws-amplify/auth";
+import type {AuthUser} from "aws-amplify/auth";
+import '@aws-amplify/ui-react/styles.css';
+
+interface ReauthenticationPromptProps {
+    onReauthenticated: () => void;
+    onDismiss: () => void;
+}
+
+/**
+ * Re-authentication Prompt
+ * Shown on top of the current page when a session refresh fails, so open
+ * dialogs (an in-progress bid or payment) stay mounted and keep their state
+ */
+export default function ReauthenticationPrompt({onReauthenticated, onDismiss}: ReauthenticationPromptProps) {
+    const [isSigningIn, setIsSigningIn] = useState(false);
+
+    const handleSignInAgain = async () => {
+        try {
+            // Clear the stale tokens so the Authenticator shows the sign-in form
+            await signOut();
+        } catch {
+            // Already signed out
+        }
+        setIsSigningIn(true);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[60] p-4">
+            <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto p-6">
+                {isSigningIn ? (
+                    <Authenticator>
+                        {({user}) => (
+                            <SessionRestored user={user} onRestored={onReauthenticated}/>
+                        )}
+                    </Authenticator>
+                ) : (
+                    <>
+                        <h2 className="text-xl font-bold text-gray-900 mb-2">Session expired</h2>
+                        <p className="text-sm text-gray-600 mb-6">
+                            Your sign-in session has expired. Sign in again to continue. Anything you were
+                            doing, such as a bid or payment, will be kept.
+                        </p>
+                        <div className="flex gap-3">
+                            <button
+                                onClick={onDismiss}
+                                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                            >
+                                Later
+                            </button>
+                            <button
+                                onClick={handleSignInAgain}
+                                className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                            >
+                                Sign In Again
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
+
+interface SessionRestoredProps {
+    user?: AuthUser;
+    onRestored: () => void;
+}
+
+function SessionRestored({user, onRestored}: SessionRestoredProps) {
+    useEffect(() => {
+        if (user) {
+            onRestored();
+        }
+    }, [user, onRestored]);
+
+    return <div className="text-center text-sm text-gray-600">Restoring your session...</div>;
+}
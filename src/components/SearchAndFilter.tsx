@@ -1,13 +1,27 @@
 import { useState } from 'react';
+import { AUCTION_STATE_LABELS, AUCTION_STATES, formatMoney, getCurrencySymbol, parseMoney } from '@biddergod/sdk';
+import type { AuctionSort } from '../types/auction';
+
+// Price bounds as typed, '' when unset
+export interface PriceRange {
+  min: string;
+  max: string;
+}
 
 interface SearchAndFilterProps {
   onSearch: (query: string) => void;
   onCategoryChange: (category: string) => void;
-  onSortChange: (sortBy: string) => void;
+  onStatusChange: (status: string) => void;
+  onPriceRangeChange: (priceRange: PriceRange) => void;
+  onSortChange: (sortBy: AuctionSort) => void;
   searchQuery: string;
   selectedCategory: string;
-  sortBy: string;
+  selectedStatus: string;
+  priceRange: PriceRange;
+  sortBy: AuctionSort;
   resultsCount: number;
+  /** Currency of the listed auctions, when they all share one; prices are shown without a symbol otherwise */
+  currency?: string;
 }
 
 const categories = [
@@ -21,7 +35,18 @@ const categories = [
   { value: 'Antiquities', label: 'Antiquities' },
 ];
 
-const sortOptions = [
+const statuses = [
+  { value: '', label: 'All Statuses' },
+  ...AUCTION_STATES.map((state) => ({ value: state, label: AUCTION_STATE_LABELS[state] })),
+];
+
+// A typed price bound for the active-filter chip
+function formatPriceBound(value: string, currency?: string): string {
+  const amount = currency ? parseMoney(value, currency) : undefined;
+  return amount ? formatMoney(amount, { omitZeroFraction: true }) : value;
+}
+
+const sortOptions: { value: AuctionSort; label: string }[] = [
   { value: 'ending_soon', label: 'Ending Soon' },
   { value: 'newest', label: 'Newest First' },
   { value: 'price_low', label: 'Price: Low to High' },
@@ -32,21 +57,29 @@ const sortOptions = [
 export default function SearchAndFilter({
   onSearch,
   onCategoryChange,
+  onStatusChange,
+  onPriceRangeChange,
   onSortChange,
   searchQuery,
   selectedCategory,
+  selectedStatus,
+  priceRange,
   sortBy,
-  resultsCount
+  resultsCount,
+  currency,
 }: SearchAndFilterProps) {
   const [showFilters, setShowFilters] = useState(false);
 
   const clearFilters = () => {
     onSearch('');
     onCategoryChange('');
+    onStatusChange('');
+    onPriceRangeChange({ min: '', max: '' });
     onSortChange('ending_soon');
   };
 
-  const hasActiveFilters = searchQuery || selectedCategory;
+  const hasPriceRange = priceRange.min !== '' || priceRange.max !== '';
+  const hasActiveFilters = searchQuery || selectedCategory || selectedStatus || hasPriceRange;
 
   return (
     <div className="bg-white rounded-lg border border-gray-200 shadow-sm">
@@ -100,6 +133,50 @@ export default function SearchAndFilter({
               </select>
             </div>
 
+            {/* Status Filter */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Status
+              </label>
+              <select
+                value={selectedStatus}
+                onChange={(e) => onStatusChange(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+              >
+                {statuses.map((status) => (
+                  <option key={status.value} value={status.value}>
+                    {status.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Price Range Filter */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Price range{currency && ` (${getCurrencySymbol(currency)})`}
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  placeholder="Min"
+                  value={priceRange.min}
+                  onChange={(e) => onPriceRangeChange({ ...priceRange, min: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                />
+                <span className="text-gray-400">–</span>
+                <input
+                  type="number"
+                  min="0"
+                  placeholder="Max"
+                  value={priceRange.max}
+                  onChange={(e) => onPriceRangeChange({ ...priceRange, max: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                />
+              </div>
+            </div>
+
             {/* Sort Filter */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -107,7 +184,7 @@ export default function SearchAndFilter({
               </label>
               <select
                 value={sortBy}
-                onChange={(e) => onSortChange(e.target.value)}
+                onChange={(e) => onSortChange(e.target.value as AuctionSort)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
               >
                 {sortOptions.map((option) => (
@@ -165,6 +242,28 @@ export default function SearchAndFilter({
                   </button>
                 </span>
               )}
+              {selectedStatus && (
+                <span className="inline-flex items-center gap-1 px-2 py-1 bg-indigo-100 text-indigo-800 text-xs rounded-full">
+                  {statuses.find(s => s.value === selectedStatus)?.label}
+                  <button
+                    onClick={() => onStatusChange('')}
+                    className="hover:bg-indigo-200 rounded-full p-0.5"
+                  >
+                    ×
+                  </button>
+                </span>
+              )}
+              {hasPriceRange && (
+                <span className="inline-flex items-center gap-1 px-2 py-1 bg-indigo-100 text-indigo-800 text-xs rounded-full">
+                  {formatPriceBound(priceRange.min || '0', currency)} – {priceRange.max ? formatPriceBound(priceRange.max, currency) : 'any'}
+                  <button
+                    onClick={() => onPriceRangeChange({ min: '', max: '' })}
+                    className="hover:bg-indigo-200 rounded-full p-0.5"
+                  >
+                    ×
+                  </button>
+                </span>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { SERVICE_LABELS, type ServiceName } from '../config/api';
+import { getCircuitState, onCircuitStateChange } from '@biddergod/sdk';
+
+function getUnavailableServices(): ServiceName[] {
+  return (Object.keys(SERVICE_LABELS) as ServiceName[])
+    .filter((service) => getCircuitState(service) === 'open');
+}
+
+/**
+ * Service Status Banner
+ * Lists the backend services whose circuit breaker is open, so users know
+ * which features are paused instead of meeting one failed request at a time
+ */
+export default function ServiceStatusBanner() {
+  const [unavailable, setUnavailable] = useState<ServiceName[]>(getUnavailableServices);
+
+  useEffect(() => {
+    return onCircuitStateChange(() => setUnavailable(getUnavailableServices()));
+  }, []);
+
+  if (unavailable.length === 0) return null;
+
+  const labels = unavailable.map((service) => SERVICE_LABELS[service]);
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200" role="status">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3">
+        <p className="text-sm text-amber-800">
+          <span className="font-medium">{labels.join(', ')} temporarily unavailable.</span>{' '}
+          Everything else keeps working, and these will come back automatically once the service recovers.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,50 +1,54 @@
-import { useState, useEffect } from 'react';
-import { fetchAuthSession } from 'aws-amplify/auth';
+import { useState, useMemo } from 'react';
 import { AuctionCard } from './AuctionCard';
-import { getAllAuctions } from '../services/auctionService';
-import { mapAuctionToDisplay } from '../types/auction';
-import type { AuctionDisplay } from '../types/auction';
+import { AUCTION_STATE_PHASES, auctionQueryKeys, getAllAuctionPages, updateUserProfile } from '@biddergod/sdk';
+import { getAuctionUserIds, mapAuctionToDisplay } from '../types/auction';
 import type { UserWithEmail } from '../App';
 import EditProfileDialog, { type ProfileFormData } from './EditProfileDialog';
-import { updateUserProfile } from '../services/userService';
+import { useCachedQuery } from '../hooks/useCachedQuery';
+import { useBidCounts } from '../hooks/useBidCounts';
+import { usePublicProfiles } from '../hooks/usePublicProfiles';
 
 interface UserProfileProps {
   user: UserWithEmail;
 }
 
+// Page size while loading every auction a seller has; the profile shows them all at once
+const MY_AUCTIONS_PAGE_SIZE = 100;
+
 export default function UserProfile({ user }: UserProfileProps) {
-  const [myAuctions, setMyAuctions] = useState<AuctionDisplay[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // Auctions created by this user, filtered by the auction service
+  const myAuctionsQuery = useMemo(
+    () => ({ sellerId: user.username, sort: 'newest' as const, limit: MY_AUCTIONS_PAGE_SIZE }),
+    [user.username]
+  );
+  const {
+    data: myAuctionsPage,
+    loading,
+    error: loadError,
+    retryProgress,
+    refresh: fetchMyAuctions,
+  } = useCachedQuery(
+    auctionQueryKeys.allPages(myAuctionsQuery),
+    (options) => getAllAuctionPages(myAuctionsQuery, options)
+  );
   const [activeTab, setActiveTab] = useState<'created' | 'bidding'>('created');
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [firstName, setFirstName] = useState<string>('');
   const [lastName, setLastName] = useState<string>('');
 
-  useEffect(() => {
-    fetchMyAuctions();
-  }, [user.username]);
-
-  const fetchMyAuctions = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const allAuctions = await getAllAuctions();
-      const displayAuctions = allAuctions.map(mapAuctionToDisplay);
+  const bidCounts = useBidCounts((myAuctionsPage?.auctions ?? []).map((auction) => auction.id));
+  const profiles = usePublicProfiles(getAuctionUserIds(myAuctionsPage?.auctions ?? []));
 
-      // Filter auctions created by this user
-      const userAuctions = displayAuctions.filter(
-        auction => auction.sellerName === user.username
-      );
+  const myAuctions = useMemo(
+    () => (myAuctionsPage?.auctions ?? []).map((auction) => mapAuctionToDisplay(auction, {
+      bidCount: bidCounts[auction.id],
+      profiles,
+    })),
+    [myAuctionsPage, bidCounts, profiles]
+  );
 
-      setMyAuctions(userAuctions);
-    } catch (err) {
-      console.error('Error fetching user auctions:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load auctions');
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Cached auctions stay on screen if a background refresh fails
+  const error = myAuctionsPage === undefined && loadError ? loadError.message : null;
 
   const handleAuctionUpdate = () => {
     fetchMyAuctions();
@@ -52,17 +56,8 @@ export default function UserProfile({ user }: UserProfileProps) {
 
   const handleEditProfile = async (profileData: ProfileFormData) => {
     try {
-      // Get the access token from Amplify session
-      const session = await fetchAuthSession();
-      const accessToken = session.tokens?.accessToken?.toString();
-
-      if (!accessToken) {
-        alert('Failed to get authentication token. Please sign in again.');
-        return;
-      }
-
-      // Call the update API
-      const result = await updateUserProfile(accessToken, {
+      // Call the update API (access token is attached by the service client)
+      const result = await updateUserProfile({
         firstName: profileData.firstName,
         lastName: profileData.lastName,
       });
@@ -82,9 +77,9 @@ export default function UserProfile({ user }: UserProfileProps) {
 
   // Calculate stats
   const totalAuctions = myAuctions.length;
-  const activeAuctions = myAuctions.filter(a => a.status === 'open').length;
-  const draftAuctions = myAuctions.filter(a => a.status === 'draft').length;
-  const closedAuctions = myAuctions.filter(a => a.status === 'closed').length;
+  const activeAuctions = myAuctions.filter(a => AUCTION_STATE_PHASES[a.status] === 'live').length;
+  const upcomingAuctions = myAuctions.filter(a => AUCTION_STATE_PHASES[a.status] === 'upcoming').length;
+  const endedAuctions = myAuctions.filter(a => AUCTION_STATE_PHASES[a.status] === 'ended').length;
 
   return (
     <div className="space-y-6">
@@ -138,15 +133,15 @@ export default function UserProfile({ user }: UserProfileProps) {
               </div>
               <div className="bg-gray-50 rounded-lg p-4">
                 <div className="text-2xl font-bold text-yellow-600">
-                  {draftAuctions}
+                  {upcomingAuctions}
                 </div>
-                <div className="text-sm text-gray-600">Draft</div>
+                <div className="text-sm text-gray-600">Upcoming</div>
               </div>
               <div className="bg-gray-50 rounded-lg p-4">
                 <div className="text-2xl font-bold text-gray-600">
-                  {closedAuctions}
+                  {endedAuctions}
                 </div>
-                <div className="text-sm text-gray-600">Closed</div>
+                <div className="text-sm text-gray-600">Ended</div>
               </div>
             </div>
           </div>
@@ -187,6 +182,11 @@ export default function UserProfile({ user }: UserProfileProps) {
               {loading && (
                 <div className="text-center py-12">
                   <p className="text-gray-600">Loading your auctions...</p>
+                  {retryProgress && (
+                    <p className="text-sm text-amber-600 mt-2">
+                      Connection problem, retrying ({retryProgress.attempt}/{retryProgress.maxRetries})...
+                    </p>
+                  )}
                 </div>
               )}
 
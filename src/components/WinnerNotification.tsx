@@ -1,10 +1,14 @@
 import { useState } from 'react';
+import { formatMoney, getDisplayName, type Money } from '@biddergod/sdk';
+import { usePublicProfiles } from '../hooks/usePublicProfiles';
 
 export interface WinnerNotificationProps {
   auctionId: string;
   auctionTitle: string;
-  finalPrice: number;
+  finalPrice: Money;
   paymentDeadline?: string;
+  /** Seller's user ID, shown as their public display name */
+  sellerId?: string;
   onPayNow: () => void;
   onDismiss: () => void;
 }
@@ -17,10 +21,12 @@ export function WinnerNotification({
   auctionTitle,
   finalPrice,
   paymentDeadline,
+  sellerId,
   onPayNow,
   onDismiss,
 }: WinnerNotificationProps) {
   const [isDismissing, setIsDismissing] = useState(false);
+  const sellerProfiles = usePublicProfiles(sellerId ? [sellerId] : []);
 
   const handleDismiss = () => {
     setIsDismissing(true);
@@ -91,6 +97,11 @@ export function WinnerNotification({
           <p className="font-semibold text-gray-900 line-clamp-2">
             {auctionTitle}
           </p>
+          {sellerId && (
+            <p className="text-sm text-gray-500 mt-1">
+              Sold by {getDisplayName(sellerId, sellerProfiles[sellerId])}
+            </p>
+          )}
         </div>
 
         {/* Final Price */}
@@ -99,7 +110,7 @@ export function WinnerNotification({
             <span className="text-sm text-gray-600">Final Price</span>
             <div className="text-right">
               <span className="text-3xl font-bold text-indigo-600">
-                ${finalPrice.toLocaleString()}
+                {formatMoney(finalPrice)}
               </span>
             </div>
           </div>
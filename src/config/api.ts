@@ -8,12 +8,25 @@
  * - Production: Kong public IP from AWS ECS (injected via Amplify build)
  */
 
-import { config } from './environment';
+import { SERVICE_HEALTH_PATHS, type ServiceName } from '@biddergod/sdk';
+import { getApiUrl } from './environment';
+
+// Limits and policies the service layer enforces are defined in the SDK
+export {
+  CACHE_POLICY,
+  CIRCUIT_BREAKER,
+  METRICS,
+  RATE_LIMITS,
+  RETRY_POLICY,
+  SERVICE_LABELS,
+  SERVICE_TIMEOUTS,
+  type ServiceName,
+} from '@biddergod/sdk';
 
 // Kong API Gateway base URL (environment-aware)
 // Local: http://localhost:8000
 // Production: http://<kong-public-ip>:8000
-export const KONG_GATEWAY_URL = config.apiGatewayUrl;
+export const KONG_GATEWAY_URL = getApiUrl();
 
 /**
  * API Endpoints Configuration
@@ -24,7 +37,8 @@ export const API_ENDPOINTS = {
   // Routes: /api/users -> user-service:8080
   USER: {
     BASE: `${KONG_GATEWAY_URL}/api/users`,
-    HEALTH: `${KONG_GATEWAY_URL}/api/users/health`, // If exists
+    HEALTH: `${KONG_GATEWAY_URL}${SERVICE_HEALTH_PATHS.USER_SERVICE}`, // If exists
+    PROFILE: `${KONG_GATEWAY_URL}/api/users/profile`,
   },
 
   // Auction Service (Node.js/Express)
@@ -34,7 +48,7 @@ export const API_ENDPOINTS = {
   //   Request: GET /api/auctions/123 -> Forwards to: GET http://auction-service:4000/auctions/123
   AUCTION: {
     BASE: `${KONG_GATEWAY_URL}/api/auctions`,
-    HEALTH: `${KONG_GATEWAY_URL}/api/auction-health`,
+    HEALTH: `${KONG_GATEWAY_URL}${SERVICE_HEALTH_PATHS.AUCTION_SERVICE}`,
     BY_ID: (id: string) => `${KONG_GATEWAY_URL}/api/auctions/${id}`,
     OPEN: (id: string) => `${KONG_GATEWAY_URL}/api/auctions/${id}/open`,
     END: (id: string) => `${KONG_GATEWAY_URL}/api/auctions/${id}/end`,
@@ -42,15 +56,19 @@ export const API_ENDPOINTS = {
 
   // Bid Command Service (Go - CQRS Write)
   // Routes: POST /api/v1/bids/{auctionId} -> bid-command:8080/api/v1/bids/{auctionId}
+  //         /api/bid-command-health -> bid-command:8080/health (strip_path: true)
   BID_COMMAND: {
     BASE: `${KONG_GATEWAY_URL}/api/v1/bids`,
+    HEALTH: `${KONG_GATEWAY_URL}${SERVICE_HEALTH_PATHS.BID_COMMAND}`,
     PLACE_BID: (auctionId: string) => `${KONG_GATEWAY_URL}/api/v1/bids/${auctionId}`,
   },
 
   // Bid Query Service (Go - CQRS Read)
   // Routes: GET /api/v1/bids/{auctionId} -> bid-query:8080/api/v1/bids/{auctionId}
+  //         /api/bid-query-health -> bid-query:8080/health (strip_path: true)
   BID_QUERY: {
     BASE: `${KONG_GATEWAY_URL}/api/v1/bids`,
+    HEALTH: `${KONG_GATEWAY_URL}${SERVICE_HEALTH_PATHS.BID_QUERY}`,
     BY_AUCTION: (auctionId: string, params?: { cursor?: string; limit?: number; direction?: 'asc' | 'desc' }) => {
       const queryParams = new URLSearchParams();
       if (params?.cursor) queryParams.append('cursor', params.cursor);
@@ -65,6 +83,7 @@ export const API_ENDPOINTS = {
   // Routes: /api/payments -> payment-service:3000/api/payments
   PAYMENT: {
     BASE: `${KONG_GATEWAY_URL}/api/payments`,
+    HEALTH: `${KONG_GATEWAY_URL}${SERVICE_HEALTH_PATHS.PAYMENT_SERVICE}`,
     CREATE_INTENT: `${KONG_GATEWAY_URL}/api/payments/payment-intents`,
     GET_INTENT: (id: string) => `${KONG_GATEWAY_URL}/api/payments/payment-intents/${id}`,
     CONFIRM: (id: string) => `${KONG_GATEWAY_URL}/api/payments/payment-intents/${id}/confirm`,
@@ -92,29 +111,22 @@ export const DIRECT_SERVICE_ENDPOINTS = {
 } as const;
 
 /**
- * Rate Limits (from Kong configuration)
+ * Health check on each service's own port, bypassing Kong (development only)
+ * Paths match what the Kong health routes forward to
  */
-export const RATE_LIMITS = {
-  USER_SERVICE: 100, // requests per minute
-  AUCTION_SERVICE: 100, // requests per minute
-  BID_COMMAND: 200, // requests per minute
-  BID_QUERY: 300, // requests per minute
-  PAYMENT_SERVICE: 50, // requests per minute
-  SSE_STREAM: Infinity, // No rate limiting for long-lived connections
-} as const;
+export const DIRECT_HEALTH_ENDPOINTS: Record<ServiceName, string> = {
+  USER_SERVICE: `${DIRECT_SERVICE_ENDPOINTS.USER_SERVICE}/api/users/health`,
+  AUCTION_SERVICE: `${DIRECT_SERVICE_ENDPOINTS.AUCTION_SERVICE}/health`,
+  BID_COMMAND: `${DIRECT_SERVICE_ENDPOINTS.BID_COMMAND}/health`,
+  BID_QUERY: `${DIRECT_SERVICE_ENDPOINTS.BID_QUERY}/health`,
+  PAYMENT_SERVICE: `${DIRECT_SERVICE_ENDPOINTS.PAYMENT_SERVICE}/api/payments/health`,
+  SSE_STREAM: `${DIRECT_SERVICE_ENDPOINTS.SSE_STREAM}/health`,
+};
 
 /**
- * Service Timeouts (from Kong configuration)
+ * Health check per service through Kong
+ * Built from the SDK's SERVICE_HEALTH_PATHS, the endpoints its circuit breaker probes
  */
-export const SERVICE_TIMEOUTS = {
-  DEFAULT: {
-    CONNECT: 60000, // 60 seconds
-    WRITE: 60000, // 60 seconds
-    READ: 60000, // 60 seconds
-  },
-  SSE: {
-    CONNECT: 60000, // 60 seconds
-    WRITE: 3600000, // 1 hour (for long-lived SSE connections)
-    READ: 3600000, // 1 hour
-  },
-} as const;
\ No newline at end of file
+export const SERVICE_HEALTH_ENDPOINTS = Object.fromEntries(
+  Object.entries(SERVICE_HEALTH_PATHS).map(([service, path]) => [service, path && `${KONG_GATEWAY_URL}${path}`])
+) as Record<ServiceName, string | null>;
@@ -7,6 +7,8 @@
  * Usage:
  * - Local development: `npm run dev` uses .env.local with localhost URLs
  * - Production build: `npm run build` uses .env.production with deployed AWS URLs
+ * - Offline: VITE_USE_MOCK_GATEWAY=true serves every gateway route from an in-browser mock
+ * - Metrics: VITE_METRICS_ENDPOINT, when set, receives client-side API metrics as JSON
  */
 
 // Extend Window interface for runtime config
@@ -14,13 +16,30 @@ declare global {
   interface Window {
     _env_?: {
       VITE_API_GATEWAY_URL?: string;
+      VITE_USE_MOCK_GATEWAY?: string;
+      VITE_METRICS_ENDPOINT?: string;
     };
   }
 }
 
+/**
+ * Where the API Gateway URL came from
+ * - runtime: window._env_ (config.js written by docker-entrypoint.sh)
+ * - build: Vite build-time env var
+ * - default: localhost fallback
+ */
+export type ConfigSource = 'runtime' | 'build' | 'default';
+
 interface EnvironmentConfig {
   // Primary API Gateway URL (Kong) - All requests go through here
   apiGatewayUrl: string;
+  apiGatewayUrlSource: ConfigSource;
+
+  // Answer gateway requests from the in-browser mock instead of Kong
+  useMockGateway: boolean;
+
+  // Collector that client-side metrics are POSTed to, null to keep them in the browser
+  metricsEndpoint: string | null;
 
   // Environment info
   isDevelopment: boolean;
@@ -41,13 +60,32 @@ function getEnvironmentConfig(): EnvironmentConfig {
   // 1. Runtime config from window._env_ (Docker/ECS deployment)
   // 2. Vite build-time env var (Amplify deployment)
   // 3. Localhost fallback (local development)
-  const apiGatewayUrl =
-    window._env_?.VITE_API_GATEWAY_URL ||
-    import.meta.env.VITE_API_GATEWAY_URL ||
-    'http://localhost:8000';
+  const runtimeUrl = window._env_?.VITE_API_GATEWAY_URL;
+  const buildUrl = import.meta.env.VITE_API_GATEWAY_URL;
+
+  let apiGatewayUrl = 'http://localhost:8000';
+  let apiGatewayUrlSource: ConfigSource = 'default';
+
+  if (runtimeUrl) {
+    apiGatewayUrl = runtimeUrl;
+    apiGatewayUrlSource = 'runtime';
+  } else if (buildUrl) {
+    apiGatewayUrl = buildUrl;
+    apiGatewayUrlSource = 'build';
+  }
+
+  // Runtime config wins here too, so one image can run a backend-free demo
+  const mockFlag = window._env_?.VITE_USE_MOCK_GATEWAY ?? import.meta.env.VITE_USE_MOCK_GATEWAY;
+  const useMockGateway = String(mockFlag).toLowerCase() === 'true';
+
+  // An empty runtime value (the docker-entrypoint default) turns the export off
+  const metricsEndpoint = (window._env_?.VITE_METRICS_ENDPOINT ?? import.meta.env.VITE_METRICS_ENDPOINT) || null;
 
   return {
     apiGatewayUrl,
+    apiGatewayUrlSource,
+    useMockGateway,
+    metricsEndpoint,
     isDevelopment,
     isProduction,
   };
@@ -63,5 +101,32 @@ export const getApiUrl = (path: string = ''): string => {
   return cleanPath ? `${baseUrl}/${cleanPath}` : baseUrl;
 };
 
+/**
+ * Startup check: report which config source won
+ * Warns when a production build silently fell back to localhost
+ */
+export function reportEnvironmentConfig(): void {
+  const sourceLabels: Record<ConfigSource, string> = {
+    runtime: 'runtime config (window._env_)',
+    build: 'build-time env (VITE_API_GATEWAY_URL)',
+    default: 'localhost fallback',
+  };
+
+  console.info(
+    `[config] API Gateway: ${config.apiGatewayUrl} (source: ${sourceLabels[config.apiGatewayUrlSource]})`
+  );
+
+  if (config.useMockGateway) {
+    console.info('[config] Mock gateway enabled: API and SSE requests are served in-browser, no backend needed');
+    return;
+  }
+
+  if (config.isProduction && config.apiGatewayUrlSource === 'default') {
+    console.warn(
+      '[config] Production build is using the localhost fallback. Set VITE_API_GATEWAY_URL at build time or in config.js.'
+    );
+  }
+}
+
 // Export default for convenience
 export default config;
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { bidQueryKeys, getBidCounts } from '@biddergod/sdk';
+import { useCachedQuery } from './useCachedQuery';
+
+const NO_COUNTS: Record<string, number> = {};
+
+/**
+ * Hook for the bid counts of the auctions on screen, keyed by auction ID
+ *
+ * Counts come from the bid-query service through the query cache, and live
+ * bid events keep them current (see updateCachedBidCount). Auctions whose
+ * count hasn't loaded are missing from the result.
+ *
+ * @example
+ * ```tsx
+ * const bidCounts = useBidCounts(auctions.map((auction) => auction.id));
+ * ```
+ */
+export function useBidCounts(auctionIds: string[]): Record<string, number> {
+  const { data } = useCachedQuery(
+    bidQueryKeys.counts(auctionIds),
+    () => getBidCounts(auctionIds),
+    { keepPreviousData: true }
+  );
+  return data ?? NO_COUNTS;
+}
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  fetchQuery,
+  getQueryState,
+  subscribeQuery,
+  type QueryFetcher,
+  type QueryState,
+} from '@biddergod/sdk';
+
+export interface UseCachedQueryOptions {
+  /**
+   * While a new key has no data yet, keep returning the previous key's data
+   * (e.g. when paging, so the grid doesn't blank out between pages)
+   */
+  keepPreviousData?: boolean;
+}
+
+export interface UseCachedQueryResult<T> extends QueryState<T> {
+  /** True only while there is nothing cached to show yet */
+  loading: boolean;
+  /** data belongs to the previous key, see keepPreviousData */
+  isPreviousData: boolean;
+  /** Refetch in the background, keeping the current data on screen */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for reading a query through the shared query cache
+ *
+ * Cached data is returned immediately, so switching tabs doesn't flash a
+ * loading state. Stale data is revalidated in the background on mount, and
+ * components using the same key share one request and one result. The request
+ * is aborted when the last component reading its key unmounts or moves to
+ * another key.
+ *
+ * @example
+ * ```tsx
+ * const { data, loading, error, refresh } = useCachedQuery(
+ *   auctionQueryKeys.list(params),
+ *   (options) => getAllAuctions(params, options)
+ * );
+ * ```
+ */
+export function useCachedQuery<T>(
+  key: string,
+  fetcher: QueryFetcher<T>,
+  { keepPreviousData = false }: UseCachedQueryOptions = {}
+): UseCachedQueryResult<T> {
+  const state = useSyncExternalStore(
+    useCallback((onChange) => subscribeQuery(key, onChange), [key]),
+    () => getQueryState<T>(key)
+  );
+
+  const previousDataRef = useRef<T | undefined>(undefined);
+  if (state.data !== undefined) {
+    previousDataRef.current = state.data;
+  }
+  const isPreviousData = keepPreviousData && state.data === undefined && previousDataRef.current !== undefined;
+  const data = isPreviousData ? previousDataRef.current : state.data;
+
+  // Revalidate on mount and whenever the key changes; fresh data is served without a request
+  useEffect(() => {
+    fetchQuery(key, fetcher).catch(() => {
+      // Failure is recorded in the query state
+    });
+    // The fetcher for a key doesn't change between renders
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  const refresh = useCallback(async () => {
+    try {
+      await fetchQuery(key, fetcher, true);
+    } catch {
+      // Failure is recorded in the query state
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  return {
+    ...state,
+    data,
+    loading: data === undefined && (state.isFetching || state.error === undefined),
+    isPreviousData,
+    refresh,
+  };
+}
@@ -0,0 +1,26 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { ServiceName } from '../config/api';
+import { getCircuitState, onCircuitStateChange, type CircuitState } from '@biddergod/sdk';
+
+/**
+ * Hook that follows a service's circuit breaker state
+ *
+ * Components use it to degrade up front (disable actions, show a banner)
+ * instead of letting each request fail on its own.
+ *
+ * @example
+ * ```tsx
+ * const biddingUnavailable = useCircuitState('BID_COMMAND') === 'open';
+ * ```
+ */
+export function useCircuitState(service: ServiceName): CircuitState {
+  return useSyncExternalStore(
+    useCallback(
+      (onChange) => onCircuitStateChange((changed) => {
+        if (changed === service) onChange();
+      }),
+      [service]
+    ),
+    () => getCircuitState(service)
+  );
+}
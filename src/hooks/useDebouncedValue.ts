@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Hook that follows a value after it has stopped changing for `delay` ms
+ *
+ * Used to turn keystrokes into one request once the user pauses typing.
+ *
+ * @example
+ * ```tsx
+ * const debouncedQuery = useDebouncedValue(searchQuery, 300);
+ * ```
+ */
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeoutId);
+  }, [value, delay]);
+
+  return debounced;
+}
@@ -0,0 +1,25 @@
+import { getPublicProfiles, userQueryKeys, type PublicProfile } from '@biddergod/sdk';
+import { useCachedQuery } from './useCachedQuery';
+
+const NO_PROFILES: Record<string, PublicProfile> = {};
+
+/**
+ * Hook for the public profiles of sellers, bidders and winners, keyed by user ID
+ *
+ * Lookups are cached and batched in the SDK, so every card asking for the same
+ * seller costs one request at most. Users that haven't loaded (or don't exist)
+ * are missing from the result; show the raw ID for them (see getDisplayName).
+ *
+ * @example
+ * ```tsx
+ * const profiles = usePublicProfiles(auctions.map((auction) => auction.sellerId));
+ * ```
+ */
+export function usePublicProfiles(userIds: string[]): Record<string, PublicProfile> {
+  const { data } = useCachedQuery(
+    userQueryKeys.publicProfiles(userIds),
+    () => getPublicProfiles(userIds),
+    { keepPreviousData: true }
+  );
+  return data ?? NO_PROFILES;
+}
@@ -4,11 +4,48 @@ import App from "./App.tsx";
 import "./index.css";
 import { Amplify } from "aws-amplify";
 import outputs from "../amplify_outputs.json";
+import { config, reportEnvironmentConfig } from "./config/environment";
+import { KONG_GATEWAY_URL } from "./config/api";
+import { amplifyTokenProvider } from "./services/amplifyAuth";
+import {
+  addMetricsExporter,
+  configureSdk,
+  consoleMetricsExporter,
+  createHttpMetricsExporter,
+  flushMetrics,
+  startMetricsExport,
+} from "@biddergod/sdk";
 
 Amplify.configure(outputs);
+reportEnvironmentConfig();
 
-ReactDOM.createRoot(document.getElementById("root")!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+// fetch and EventSource stay the browser's own, so the mock gateway below can still intercept them
+configureSdk({
+  gatewayUrl: KONG_GATEWAY_URL,
+  tokenProvider: amplifyTokenProvider,
+});
+
+// Metrics always show in the DevConsole; the console and collector exporters are opt-in by environment
+if (config.isDevelopment) {
+  addMetricsExporter(consoleMetricsExporter);
+}
+if (config.metricsEndpoint) {
+  addMetricsExporter(createHttpMetricsExporter(config.metricsEndpoint));
+}
+startMetricsExport();
+window.addEventListener("pagehide", () => {
+  flushMetrics();
+});
+
+// The mock is loaded on demand so it stays out of the normal bundle
+const mockGatewayReady = config.useMockGateway
+  ? import("./mocks/mockGateway").then(({ installMockGateway }) => installMockGateway())
+  : Promise.resolve();
+
+mockGatewayReady.then(() => {
+  ReactDOM.createRoot(document.getElementById("root")!).render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+});
@@ -0,0 +1,123 @@
+// Mock SSE Stream
+// Stand-in for EventSource that receives events from the mock gateway
+// instead of the SSE stream service
+
+import type { SSEEvent } from '@biddergod/sdk';
+
+/**
+ * Event published to mock SSE connections
+ * Events without targetUsers are public and reach every connection
+ */
+export interface MockStreamEvent extends SSEEvent {
+  targetUsers?: string[];
+  [key: string]: unknown;
+}
+
+const connections = new Set<MockEventSource>();
+
+// Simulated connect time, long enough for the UI's "connecting" state to show
+const CONNECT_DELAY_MS = 150;
+
+/**
+ * Read the username out of a Cognito JWT without verifying it
+ * Good enough for the mock, which trusts whatever Amplify hands it
+ */
+export function getTokenUsername(token: string | null | undefined): string | undefined {
+  const payload = token?.split('.')[1];
+  if (!payload) {
+    return undefined;
+  }
+
+  try {
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    const username = claims['cognito:username'] ?? claims.username;
+    return typeof username === 'string' ? username : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * EventSource look-alike: same readyState values, handler properties and events
+ * so useSSE works unchanged
+ */
+export class MockEventSource extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+
+  readonly CONNECTING = 0;
+  readonly OPEN = 1;
+  readonly CLOSED = 2;
+
+  readonly url: string;
+  readonly withCredentials = false;
+  readonly userId?: string;
+  readyState: number = MockEventSource.CONNECTING;
+
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  constructor(url: string) {
+    super();
+    this.url = url;
+    this.userId = getTokenUsername(new URL(url).searchParams.get('token'));
+
+    setTimeout(() => {
+      if (this.readyState !== MockEventSource.CONNECTING) {
+        return;
+      }
+
+      if (!this.userId) {
+        // Same as the real stream rejecting a missing or unreadable token
+        this.dispatchEvent(new Event('error'));
+        return;
+      }
+
+      this.readyState = MockEventSource.OPEN;
+      connections.add(this);
+      this.dispatchEvent(new Event('open'));
+      this.deliver({
+        type: 'connected',
+        userId: this.userId,
+        message: 'Connected to mock event stream',
+        timestamp: new Date().toISOString(),
+      });
+    }, CONNECT_DELAY_MS);
+  }
+
+  close(): void {
+    this.readyState = MockEventSource.CLOSED;
+    connections.delete(this);
+  }
+
+  /**
+   * Also call the matching on<type> handler, like the native EventSource does
+   */
+  dispatchEvent(event: Event): boolean {
+    if (event.type === 'open') this.onopen?.(event);
+    if (event.type === 'message') this.onmessage?.(event as MessageEvent);
+    if (event.type === 'error') this.onerror?.(event);
+    return super.dispatchEvent(event);
+  }
+
+  deliver(event: MockStreamEvent): void {
+    if (this.readyState !== MockEventSource.OPEN) {
+      return;
+    }
+
+    this.dispatchEvent(new MessageEvent('message', { data: JSON.stringify(event) }));
+  }
+}
+
+/**
+ * Send an event to every open mock connection it targets
+ */
+export function publishMockEvent(event: MockStreamEvent): void {
+  connections.forEach((connection) => {
+    if (!event.targetUsers || (connection.userId && event.targetUsers.includes(connection.userId))) {
+      connection.deliver(event);
+    }
+  });
+}
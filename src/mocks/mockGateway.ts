@@ -0,0 +1,307 @@
+// Mock API Gateway
+// Answers every route in API_ENDPOINTS from in-memory state so the app runs without Kong
+// Enabled with VITE_USE_MOCK_GATEWAY=true (see config/environment.ts)
+
+import { KONG_GATEWAY_URL } from '../config/api';
+import { sleep } from '@biddergod/sdk';
+import { getTokenUsername, MockEventSource } from './mockEventSource';
+import * as state from './mockState';
+import { MockHttpError } from './mockState';
+
+// Simulated network latency range, so loading states are visible
+const MIN_LATENCY_MS = 80;
+const MAX_LATENCY_MS = 250;
+
+// How often auctions are checked for a start, end, payment deadline or payout that is due
+const LIFECYCLE_CHECK_INTERVAL_MS = 5000;
+
+interface MockRequest {
+  method: string;
+  params: string[];
+  query: URLSearchParams;
+  headers: Headers;
+  body: unknown;
+  /** Username from the Bearer token, if one was sent */
+  username?: string;
+}
+
+interface MockResponse {
+  status: number;
+  body?: unknown;
+}
+
+type RouteHandler = (request: MockRequest) => MockResponse;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+function ok(body: unknown, status = 200): MockResponse {
+  return { status, body };
+}
+
+function requireUser(request: MockRequest): string {
+  if (!request.username) {
+    throw new MockHttpError(401, 'Unauthorized', 'Missing or invalid access token');
+  }
+  return request.username;
+}
+
+function getBody<T>(request: MockRequest): Partial<T> {
+  return (request.body && typeof request.body === 'object' ? request.body : {}) as Partial<T>;
+}
+
+// Paths are relative to the gateway URL, same layout as docker-compose/config/kong.yaml
+const routes: Route[] = [
+  { method: 'GET', pattern: /^\/api\/users\/health$/, handler: () => ok({ status: 'UP' }) },
+  {
+    method: 'GET',
+    pattern: /^\/api\/users\/profile$/,
+    handler: (request) => ok(state.getProfile(requireUser(request))),
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/users\/profile$/,
+    handler: (request) => ok({
+      message: 'Profile updated successfully',
+      user: state.updateProfile(requireUser(request), getBody(request)),
+    }),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/users\/public$/,
+    handler: ({ query }) => {
+      const ids = (query.get('ids') ?? '').split(',').filter(Boolean);
+      if (ids.length === 0) {
+        throw new MockHttpError(400, 'Bad Request', 'ids is required');
+      }
+      return ok(state.getPublicProfiles(ids));
+    },
+  },
+
+  { method: 'GET', pattern: /^\/api\/auction-health$/, handler: () => ok({ status: 'ok' }) },
+  { method: 'GET', pattern: /^\/api\/bid-command-health$/, handler: () => ok({ status: 'ok' }) },
+  { method: 'GET', pattern: /^\/api\/bid-query-health$/, handler: () => ok({ status: 'ok' }) },
+  { method: 'GET', pattern: /^\/api\/payments\/health$/, handler: () => ok({ status: 'ok' }) },
+  { method: 'GET', pattern: /^\/api\/auctions$/, handler: () => ok(state.listAuctions()) },
+  {
+    method: 'POST',
+    pattern: /^\/api\/auctions$/,
+    handler: (request) => {
+      const username = requireUser(request);
+      const body = getBody<Parameters<typeof state.createAuction>[0]>(request);
+      if (body.sellerId !== username) {
+        throw new MockHttpError(403, 'Forbidden', 'sellerId must match the signed-in user');
+      }
+      return ok(state.createAuction(body as Parameters<typeof state.createAuction>[0]), 201);
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/auctions\/([^/]+)$/,
+    handler: ({ params }) => ok(state.getAuction(params[0])),
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/auctions\/([^/]+)$/,
+    handler: (request) => ok(state.updateAuction(request.params[0], requireUser(request), getBody(request))),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/auctions\/([^/]+)\/open$/,
+    handler: (request) => ok(state.openAuction(request.params[0], requireUser(request))),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/auctions\/([^/]+)\/end$/,
+    handler: (request) => ok(state.endAuction(request.params[0], requireUser(request))),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/auctions\/([^/]+)\/cancel$/,
+    handler: (request) => ok(state.cancelAuction(request.params[0], requireUser(request))),
+  },
+
+  {
+    method: 'POST',
+    pattern: /^\/api\/v1\/bids\/([^/]+)$/,
+    handler: (request) => {
+      const username = requireUser(request);
+      const { bidderId, amount } = getBody<{ bidderId: string; amount: number }>(request);
+      if (typeof amount !== 'number' || !(amount > 0)) {
+        throw new MockHttpError(400, 'Bad Request', 'amount must be a positive number');
+      }
+      if (bidderId && bidderId !== username) {
+        throw new MockHttpError(403, 'Forbidden', 'bidderId must match the signed-in user');
+      }
+      return ok(state.placeBid(
+        request.params[0],
+        username,
+        amount,
+        request.headers.get('Idempotency-Key'),
+        request.headers.get('X-Request-ID')
+      ), 201);
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/v1\/bids\/([^/]+)$/,
+    handler: ({ params, query }) => {
+      const direction = query.get('direction');
+      return ok(state.getBidHistory(params[0], {
+        cursor: query.get('cursor') ?? undefined,
+        limit: query.has('limit') ? Number(query.get('limit')) : undefined,
+        direction: direction === 'asc' || direction === 'desc' ? direction : undefined,
+      }));
+    },
+  },
+
+  {
+    method: 'POST',
+    pattern: /^\/api\/payments\/payment-intents$/,
+    handler: (request) => ok(
+      state.createPaymentIntent(getBody(request) as Parameters<typeof state.createPaymentIntent>[0], requireUser(request)),
+      201
+    ),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/payments\/payment-intents\/([^/]+)$/,
+    handler: (request) => {
+      requireUser(request);
+      return ok(state.getPaymentIntent(request.params[0]));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/payments\/payment-intents\/([^/]+)\/confirm$/,
+    handler: (request) => {
+      requireUser(request);
+      const { paymentMethodId } = getBody<{ paymentMethodId: string }>(request);
+      return ok(state.confirmPaymentIntent(request.params[0], paymentMethodId));
+    },
+  },
+];
+
+function toProblemResponse(
+  status: number,
+  title: string,
+  detail: string,
+  instance: string,
+  requestId: string | null
+): Response {
+  return new Response(JSON.stringify({ type: 'about:blank', title, status, detail, instance }), {
+    status,
+    statusText: title,
+    headers: getResponseHeaders('application/problem+json', requestId),
+  });
+}
+
+// Kong echoes the caller's X-Request-ID back
+function getResponseHeaders(contentType: string, requestId: string | null): Record<string, string> {
+  return requestId ? { 'Content-Type': contentType, 'X-Request-ID': requestId } : { 'Content-Type': contentType };
+}
+
+/**
+ * Answer one gateway request the way Kong and the service behind it would
+ */
+async function handleRequest(url: URL, init: RequestInit & { headers: Headers }): Promise<Response> {
+  const method = (init.method ?? 'GET').toUpperCase();
+  const path = url.pathname.replace(new URL(KONG_GATEWAY_URL).pathname.replace(/\/$/, ''), '');
+  const requestId = init.headers.get('X-Request-ID');
+
+  await sleep(MIN_LATENCY_MS + Math.random() * (MAX_LATENCY_MS - MIN_LATENCY_MS), init.signal ?? undefined);
+
+  const pathMatches = routes.filter((route) => route.pattern.test(path));
+  const route = pathMatches.find((candidate) => candidate.method === method);
+
+  if (!route) {
+    return pathMatches.length > 0
+      ? toProblemResponse(405, 'Method Not Allowed', `${method} is not supported on ${path}`, path, requestId)
+      : toProblemResponse(404, 'Not Found', `No mock route for ${method} ${path}`, path, requestId);
+  }
+
+  let body: unknown;
+  if (typeof init.body === 'string' && init.body) {
+    try {
+      body = JSON.parse(init.body);
+    } catch {
+      return toProblemResponse(400, 'Bad Request', 'Request body is not valid JSON', path, requestId);
+    }
+  }
+
+  const authorization = init.headers.get('Authorization');
+  const request: MockRequest = {
+    method,
+    params: route.pattern.exec(path)!.slice(1).map(decodeURIComponent),
+    query: url.searchParams,
+    headers: init.headers,
+    body,
+    username: authorization?.startsWith('Bearer ') ? getTokenUsername(authorization.slice(7)) : undefined,
+  };
+
+  try {
+    const response = route.handler(request);
+    return new Response(response.body === undefined ? null : JSON.stringify(response.body), {
+      status: response.status,
+      headers: getResponseHeaders('application/json', requestId),
+    });
+  } catch (error) {
+    if (error instanceof MockHttpError) {
+      return toProblemResponse(error.status, error.title, error.message, path, requestId);
+    }
+    console.error('[mock gateway] Handler failed:', error);
+    return toProblemResponse(500, 'Internal Server Error', 'Mock handler failed', path, requestId);
+  }
+}
+
+function isGatewayUrl(url: string): boolean {
+  return url.startsWith(`${KONG_GATEWAY_URL}/`);
+}
+
+let installed = false;
+
+/**
+ * Route gateway fetch and EventSource traffic to the mock
+ * Everything else (Cognito, images) still goes to the network
+ */
+export function installMockGateway(): void {
+  if (installed) {
+    return;
+  }
+  installed = true;
+
+  const realFetch = window.fetch.bind(window);
+  window.fetch = (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = input instanceof Request ? input.url : String(input);
+    if (!isGatewayUrl(url)) {
+      return realFetch(input, init);
+    }
+
+    return handleRequest(new URL(url), {
+      ...init,
+      method: init.method ?? (input instanceof Request ? input.method : 'GET'),
+      headers: new Headers(init.headers ?? (input instanceof Request ? input.headers : undefined)),
+      signal: init.signal ?? (input instanceof Request ? input.signal : undefined),
+    });
+  };
+
+  const RealEventSource = window.EventSource;
+  class GatewayEventSource extends MockEventSource {
+    constructor(url: string | URL, eventSourceInitDict?: EventSourceInit) {
+      const href = String(url);
+      if (!isGatewayUrl(href)) {
+        // Returning an object from a constructor replaces the instance
+        return new RealEventSource(href, eventSourceInitDict) as unknown as GatewayEventSource;
+      }
+      super(href);
+    }
+  }
+  window.EventSource = GatewayEventSource as unknown as typeof EventSource;
+
+  setInterval(state.advanceLifecycles, LIFECYCLE_CHECK_INTERVAL_MS);
+
+  console.info(`[mock gateway] Serving ${KONG_GATEWAY_URL} from in-memory data`);
+}
@@ -0,0 +1,594 @@
+// Mock Backend State
+// In-memory auctions, bids, payment intents and profiles behind the mock gateway
+// Applies the same rules as the real services and publishes the same SSE events
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Auction, CreateAuctionRequest } from '../types/auction';
+import {
+  AUCTION_STATE_LABELS,
+  canTransition,
+  DEFAULT_CURRENCY,
+  getAuctionState,
+  normalizeAuctionImages,
+  normalizeCurrency,
+  parseLegacyImageUrls,
+  toLegacyImageUrls,
+  type AuctionAction,
+  type BidHistoryParams,
+  type BidHistoryResponse,
+  type CreatePaymentIntentRequest,
+  type PaymentConfirmation,
+  type PaymentIntent,
+  type PlaceBidResponse,
+  type PublicProfile,
+  type PublicProfileList,
+  type UserProfile,
+  type UserProfileUpdateRequest,
+} from '@biddergod/sdk';
+import { publishMockEvent } from './mockEventSource';
+
+/**
+ * Rejected request, turned into a problem+json response by the gateway
+ */
+export class MockHttpError extends Error {
+  readonly status: number;
+  readonly title: string;
+
+  constructor(status: number, title: string, detail: string) {
+    super(detail);
+    this.name = 'MockHttpError';
+    this.status = status;
+    this.title = title;
+  }
+}
+
+type StoredBid = BidHistoryResponse['bids'][number];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_BID_PAGE_SIZE = 20;
+const MAX_BID_PAGE_SIZE = 100;
+const PAYMENT_DEADLINE_MS = 48 * HOUR_MS;
+// A bid this close to the end pushes the end back to this far from now
+const EXTENSION_WINDOW_MS = 2 * 60 * 1000;
+// Time between payment and the payout to the seller
+const SETTLEMENT_DELAY_MS = 60 * 1000;
+
+const auctions = new Map<string, Auction>();
+const bidsByAuction = new Map<string, StoredBid[]>();
+const placedBidsByKey = new Map<string, PlaceBidResponse>();
+const paymentIntents = new Map<string, PaymentIntent>();
+const profiles = new Map<string, UserProfile>();
+// Payment deadline per auction awaiting payment, and payment time per paid auction
+const paymentDeadlines = new Map<string, number>();
+const paidAt = new Map<string, number>();
+
+function seedAuction(
+  fields: Pick<Auction, 'itemName' | 'itemDescription' | 'category' | 'condition' | 'startingPrice' | 'sellerId' | 'status'>,
+  imageUrls: string[],
+  startOffsetMs: number,
+  endOffsetMs: number
+): Auction {
+  const now = Date.now();
+  const auction: Auction = {
+    ...fields,
+    id: uuidv4(),
+    images: imageUrls.map((url, position) => ({ url, position, altText: fields.itemName })),
+    imageUrls: imageUrls.join(','),
+    currentPrice: fields.startingPrice,
+    currency: DEFAULT_CURRENCY,
+    winnerId: null,
+    startTime: new Date(now + startOffsetMs).toISOString(),
+    endTime: new Date(now + endOffsetMs).toISOString(),
+    createdAt: new Date(now + startOffsetMs - HOUR_MS).toISOString(),
+    updatedAt: new Date(now + startOffsetMs).toISOString(),
+  };
+  auctions.set(auction.id, auction);
+  bidsByAuction.set(auction.id, []);
+  return auction;
+}
+
+function seedBids(auction: Auction, bids: Array<[bidderId: string, amount: number]>): void {
+  const history = bidsByAuction.get(auction.id)!;
+  const start = Date.parse(auction.startTime);
+
+  bids.forEach(([bidderId, amount], index) => {
+    history.push({
+      bidId: uuidv4(),
+      auctionId: auction.id,
+      bidderId,
+      amount,
+      timestamp: new Date(start + (index + 1) * 10 * 60 * 1000).toISOString(),
+    });
+    auction.currentPrice = amount;
+  });
+}
+
+function seedProfile(username: string, firstName: string, lastName: string): void {
+  profiles.set(username, { id: uuidv4(), username, email: `${username}@example.com`, firstName, lastName });
+}
+
+function seed(): void {
+  seedProfile('mock-seller-alice', 'Alice', 'Martin');
+  seedProfile('mock-seller-dave', 'Dave', 'Okafor');
+  seedProfile('mock-seller-erin', 'Erin', 'Novak');
+  seedProfile('mock-bidder-bob', 'Bob', 'Lindqvist');
+  seedProfile('mock-bidder-carol', 'Carol', 'Reyes');
+
+  const camera = seedAuction({
+    itemName: 'Leica M6 Rangefinder',
+    itemDescription: 'Classic 35mm film rangefinder, serviced last year. Comes with the original strap and box.',
+    category: 'Electronics',
+    condition: 'excellent',
+    startingPrice: 1800,
+    sellerId: 'mock-seller-alice',
+    status: 'open',
+  }, ['https://images.unsplash.com/photo-1516035069371-29a1b244cc32?w=800'], -6 * HOUR_MS, 18 * HOUR_MS);
+  seedBids(camera, [['mock-bidder-bob', 1850], ['mock-bidder-carol', 1925], ['mock-bidder-bob', 2000]]);
+
+  const watch = seedAuction({
+    itemName: 'Vintage Omega Seamaster',
+    itemDescription: 'Automatic movement from 1968, recently serviced. Minor wear on the bezel.',
+    category: 'Fashion',
+    condition: 'good',
+    startingPrice: 950,
+    sellerId: 'mock-seller-dave',
+    status: 'open',
+  }, ['https://images.unsplash.com/photo-1523170335258-f5ed11844a49?w=800'], -2 * HOUR_MS, 30 * 60 * 1000);
+  seedBids(watch, [['mock-bidder-carol', 1000]]);
+
+  seedAuction({
+    itemName: 'Ming Dynasty Style Vase',
+    itemDescription: 'Hand-painted blue and white porcelain vase, 20th century reproduction.',
+    category: 'Antiquities',
+    condition: 'like_new',
+    startingPrice: 400,
+    sellerId: 'mock-seller-alice',
+    status: 'open',
+  }, ['https://images.unsplash.com/photo-1578500494198-246f612d3b3d?w=800'], -HOUR_MS, 3 * 24 * HOUR_MS);
+
+  seedAuction({
+    itemName: 'Signed First Edition Novel',
+    itemDescription: 'First printing with the author\'s signature on the title page. Dust jacket included.',
+    category: 'Collectibles',
+    condition: 'fair',
+    startingPrice: 250,
+    sellerId: 'mock-seller-dave',
+    status: 'draft',
+  }, [], HOUR_MS, 2 * 24 * HOUR_MS);
+
+  const painting = seedAuction({
+    itemName: 'Abstract Oil Painting',
+    itemDescription: 'Original 60x90cm oil on canvas by a local artist, framed.',
+    category: 'Art',
+    condition: 'excellent',
+    startingPrice: 600,
+    sellerId: 'mock-seller-erin',
+    status: 'awaiting_payment',
+  }, ['https://images.unsplash.com/photo-1541961017774-22349e4a1262?w=800'], -3 * 24 * HOUR_MS, -HOUR_MS);
+  seedBids(painting, [['mock-bidder-bob', 650], ['mock-bidder-carol', 720]]);
+  painting.winnerId = 'mock-bidder-carol';
+  paymentDeadlines.set(painting.id, Date.now() + PAYMENT_DEADLINE_MS - HOUR_MS);
+}
+
+seed();
+
+function getAuctionOrThrow(id: string): Auction {
+  const auction = auctions.get(id);
+  if (!auction) {
+    throw new MockHttpError(404, 'Not Found', `Auction ${id} not found`);
+  }
+  return auction;
+}
+
+function assertSeller(auction: Auction, username: string): void {
+  if (auction.sellerId !== username) {
+    throw new MockHttpError(403, 'Forbidden', 'Only the seller can change this auction');
+  }
+}
+
+/**
+ * Reject an action the lifecycle doesn't allow in the auction's current state
+ */
+function assertTransition(auction: Auction, action: AuctionAction, message?: string): void {
+  const state = getAuctionState(auction);
+  if (!canTransition(state, action)) {
+    throw new MockHttpError(409, 'Conflict', message ?? `Cannot ${action} an auction that is ${AUCTION_STATE_LABELS[state].toLowerCase()}`);
+  }
+}
+
+function touch(auction: Auction): Auction {
+  auction.updatedAt = new Date().toISOString();
+  return { ...auction };
+}
+
+export function listAuctions(): Auction[] {
+  advanceLifecycles();
+  return [...auctions.values()]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map((auction) => ({ ...auction }));
+}
+
+export function getAuction(id: string): Auction {
+  advanceLifecycles();
+  return { ...getAuctionOrThrow(id) };
+}
+
+export function createAuction(request: CreateAuctionRequest & Partial<Auction>): Auction {
+  const missing = (['itemName', 'itemDescription', 'startTime', 'endTime'] as const)
+    .filter((field) => !request[field]);
+  if (missing.length > 0) {
+    throw new MockHttpError(400, 'Bad Request', `Missing required fields: ${missing.join(', ')}`);
+  }
+  if (!(request.startingPrice > 0)) {
+    throw new MockHttpError(400, 'Bad Request', 'startingPrice must be greater than 0');
+  }
+  if (Date.parse(request.endTime) <= Date.parse(request.startTime)) {
+    throw new MockHttpError(400, 'Bad Request', 'endTime must be after startTime');
+  }
+
+  // Older clients only send the legacy string
+  const images = request.images ? normalizeAuctionImages(request.images) : parseLegacyImageUrls(request.imageUrls);
+  const now = new Date().toISOString();
+  const auction: Auction = {
+    id: uuidv4(),
+    itemName: request.itemName,
+    itemDescription: request.itemDescription,
+    category: request.category,
+    condition: request.condition,
+    images,
+    imageUrls: toLegacyImageUrls(images),
+    startingPrice: request.startingPrice,
+    currentPrice: request.startingPrice,
+    currency: normalizeCurrency(request.currency),
+    sellerId: request.sellerId,
+    winnerId: null,
+    startTime: request.startTime,
+    endTime: request.endTime,
+    status: 'draft',
+    createdAt: now,
+    updatedAt: now,
+  };
+  auctions.set(auction.id, auction);
+  bidsByAuction.set(auction.id, []);
+  return { ...auction };
+}
+
+export function updateAuction(id: string, username: string, changes: Partial<CreateAuctionRequest>): Auction {
+  const auction = getAuctionOrThrow(id);
+  assertSeller(auction, username);
+  if (auction.status !== 'draft') {
+    throw new MockHttpError(409, 'Conflict', 'Only draft auctions can be edited');
+  }
+
+  // The seller can't be reassigned
+  Object.assign(auction, { ...changes, sellerId: auction.sellerId });
+  if (changes.images || changes.imageUrls !== undefined) {
+    auction.images = changes.images ? normalizeAuctionImages(changes.images) : parseLegacyImageUrls(changes.imageUrls);
+    auction.imageUrls = toLegacyImageUrls(auction.images);
+  }
+  if (changes.startingPrice !== undefined) {
+    auction.currentPrice = changes.startingPrice;
+  }
+  return touch(auction);
+}
+
+export function openAuction(id: string, username: string): Auction {
+  const auction = getAuctionOrThrow(id);
+  assertSeller(auction, username);
+  assertTransition(auction, 'open');
+
+  // Opening ahead of the start time schedules it; the scheduler starts it later
+  auction.status = Date.parse(auction.startTime) > Date.now() ? 'scheduled' : 'open';
+  const opened = touch(auction);
+  publishMockEvent({
+    type: 'auction.opened',
+    data: { auctionId: id, itemName: auction.itemName, status: auction.status },
+    timestamp: auction.updatedAt,
+  });
+  return opened;
+}
+
+/**
+ * Publish a lifecycle move that changes nothing but the status
+ */
+function publishStatusChange(type: string, auction: Auction): void {
+  publishMockEvent({
+    type,
+    data: { auctionId: auction.id, status: auction.status },
+    timestamp: auction.updatedAt,
+  });
+}
+
+function closeAuction(auction: Auction): void {
+  const history = bidsByAuction.get(auction.id) ?? [];
+  const winningBid = history[history.length - 1];
+
+  auction.status = winningBid ? 'awaiting_payment' : 'closed_unsold';
+  auction.winnerId = winningBid?.bidderId ?? null;
+  touch(auction);
+
+  publishMockEvent({
+    type: 'auction.closed',
+    data: {
+      auctionId: auction.id,
+      status: auction.status,
+      winnerId: auction.winnerId,
+      finalPrice: auction.currentPrice,
+      currency: auction.currency,
+    },
+    timestamp: auction.updatedAt,
+  });
+
+  if (!winningBid) {
+    return;
+  }
+
+  const paymentDeadline = Date.now() + PAYMENT_DEADLINE_MS;
+  paymentDeadlines.set(auction.id, paymentDeadline);
+
+  publishMockEvent({
+    type: 'auction.won',
+    targetUsers: [winningBid.bidderId],
+    auctionId: auction.id,
+    itemName: auction.itemName,
+    finalPrice: auction.currentPrice,
+    currency: auction.currency,
+    winnerId: winningBid.bidderId,
+    sellerId: auction.sellerId,
+    wonAt: auction.updatedAt,
+    timestamp: auction.updatedAt,
+  });
+  publishMockEvent({
+    type: 'payment.required',
+    targetUsers: [winningBid.bidderId, auction.sellerId],
+    data: {
+      auctionId: auction.id,
+      winnerId: winningBid.bidderId,
+      sellerId: auction.sellerId,
+      amount: auction.currentPrice,
+      currency: auction.currency,
+      paymentDeadline: new Date(paymentDeadline).toISOString(),
+    },
+    timestamp: auction.updatedAt,
+  });
+}
+
+export function endAuction(id: string, username: string): Auction {
+  const auction = getAuctionOrThrow(id);
+  assertSeller(auction, username);
+  assertTransition(auction, 'end');
+
+  closeAuction(auction);
+  return { ...auction };
+}
+
+export function cancelAuction(id: string, username: string): Auction {
+  const auction = getAuctionOrThrow(id);
+  assertSeller(auction, username);
+  assertTransition(auction, 'cancel');
+  if ((bidsByAuction.get(id) ?? []).length > 0) {
+    throw new MockHttpError(409, 'Conflict', 'Auctions with bids cannot be cancelled');
+  }
+
+  auction.status = 'cancelled';
+  const cancelled = touch(auction);
+  publishStatusChange('auction.cancelled', auction);
+  return cancelled;
+}
+
+/**
+ * Time-driven lifecycle moves, like the auction service's scheduler: start scheduled
+ * auctions, close ended ones, lapse unpaid ones and settle paid ones
+ */
+export function advanceLifecycles(): void {
+  const now = Date.now();
+  auctions.forEach((auction) => {
+    const state = getAuctionState(auction);
+
+    if (canTransition(state, 'start') && Date.parse(auction.startTime) <= now) {
+      auction.status = 'open';
+      touch(auction);
+      publishStatusChange('auction.started', auction);
+    }
+
+    if (canTransition(getAuctionState(auction), 'end') && Date.parse(auction.endTime) <= now) {
+      closeAuction(auction);
+    } else if (canTransition(state, 'expirePayment') && (paymentDeadlines.get(auction.id) ?? Infinity) <= now) {
+      auction.status = 'closed_unsold';
+      paymentDeadlines.delete(auction.id);
+      touch(auction);
+      publishStatusChange('auction.payment_expired', auction);
+    } else if (canTransition(state, 'settle') && (paidAt.get(auction.id) ?? Infinity) + SETTLEMENT_DELAY_MS <= now) {
+      auction.status = 'settled';
+      paidAt.delete(auction.id);
+      touch(auction);
+      publishStatusChange('auction.settled', auction);
+    }
+  });
+}
+
+/**
+ * Place a bid; a repeated Idempotency-Key returns the original result instead of bidding twice
+ */
+export function placeBid(
+  auctionId: string,
+  username: string,
+  amount: number,
+  idempotencyKey: string | null,
+  requestId: string | null
+): PlaceBidResponse {
+  if (idempotencyKey && placedBidsByKey.has(idempotencyKey)) {
+    return placedBidsByKey.get(idempotencyKey)!;
+  }
+
+  advanceLifecycles();
+  const auction = getAuctionOrThrow(auctionId);
+
+  if (auction.sellerId === username) {
+    throw new MockHttpError(403, 'Forbidden', 'Sellers cannot bid on their own auction');
+  }
+  assertTransition(
+    auction,
+    'bid',
+    `Auction is ${AUCTION_STATE_LABELS[getAuctionState(auction)].toLowerCase()}, bids are not accepted`
+  );
+  if (!(amount > auction.currentPrice)) {
+    throw new MockHttpError(409, 'Conflict', `Bid must be higher than the current price of ${auction.currentPrice}`);
+  }
+
+  const history = bidsByAuction.get(auctionId)!;
+  const bid: StoredBid = {
+    bidId: uuidv4(),
+    auctionId,
+    bidderId: username,
+    amount,
+    timestamp: new Date().toISOString(),
+  };
+  history.push(bid);
+  auction.currentPrice = amount;
+  touch(auction);
+
+  const response: PlaceBidResponse = { ...bid, message: 'Bid placed successfully' };
+  if (idempotencyKey) {
+    placedBidsByKey.set(idempotencyKey, response);
+  }
+
+  publishMockEvent({
+    type: 'bid.placed',
+    data: { auctionId, bidderId: username, amount, newPrice: amount, bidCount: history.length },
+    timestamp: bid.timestamp,
+    // Same IDs bid-command forwards, so the client can link the event to its request
+    correlationId: requestId ?? undefined,
+    causationId: idempotencyKey ?? undefined,
+  });
+
+  // Anti-sniping: a bid in the last minutes gives everyone time to answer it
+  const extendedEnd = Date.now() + EXTENSION_WINDOW_MS;
+  if (Date.parse(auction.endTime) < extendedEnd) {
+    auction.status = 'extended';
+    auction.endTime = new Date(extendedEnd).toISOString();
+    touch(auction);
+    publishMockEvent({
+      type: 'auction.extended',
+      data: { auctionId, status: auction.status, endTime: auction.endTime },
+      timestamp: auction.updatedAt,
+    });
+  }
+  return response;
+}
+
+/**
+ * Cursor pagination over an auction's bids; the cursor is an opaque offset
+ */
+export function getBidHistory(auctionId: string, params: BidHistoryParams): BidHistoryResponse {
+  getAuctionOrThrow(auctionId);
+
+  const limit = Math.min(Math.max(params.limit ?? DEFAULT_BID_PAGE_SIZE, 1), MAX_BID_PAGE_SIZE);
+  let offset = 0;
+  if (params.cursor) {
+    offset = Number(atob(params.cursor));
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new MockHttpError(400, 'Bad Request', 'Invalid cursor');
+    }
+  }
+
+  const ordered = [...bidsByAuction.get(auctionId)!];
+  if (params.direction !== 'asc') {
+    ordered.reverse();
+  }
+
+  const bids = ordered.slice(offset, offset + limit);
+  const hasMore = offset + limit < ordered.length;
+  return {
+    bids,
+    nextCursor: hasMore ? btoa(String(offset + limit)) : undefined,
+    hasMore,
+  };
+}
+
+export function createPaymentIntent(request: CreatePaymentIntentRequest, username: string): PaymentIntent {
+  if (!Number.isInteger(request.amount) || request.amount <= 0) {
+    throw new MockHttpError(400, 'Bad Request', 'amount must be a positive integer in minor units');
+  }
+
+  const id = `pi_mock_${uuidv4().replace(/-/g, '')}`;
+  const intent: PaymentIntent = {
+    id,
+    amount: request.amount,
+    currency: request.currency ?? 'usd',
+    status: 'requires_payment_method',
+    clientSecret: `${id}_secret_${uuidv4().slice(0, 8)}`,
+    customerId: username,
+    metadata: request.metadata,
+    createdAt: new Date().toISOString(),
+  };
+  paymentIntents.set(id, intent);
+  return { ...intent };
+}
+
+function getPaymentIntentOrThrow(id: string): PaymentIntent {
+  const intent = paymentIntents.get(id);
+  if (!intent) {
+    throw new MockHttpError(404, 'Not Found', `Payment intent ${id} not found`);
+  }
+  return intent;
+}
+
+export function getPaymentIntent(id: string): PaymentIntent {
+  return { ...getPaymentIntentOrThrow(id) };
+}
+
+export function confirmPaymentIntent(id: string, paymentMethodId: string | undefined): PaymentConfirmation {
+  const intent = getPaymentIntentOrThrow(id);
+  if (!paymentMethodId) {
+    throw new MockHttpError(400, 'Bad Request', 'paymentMethodId is required');
+  }
+  if (intent.status === 'succeeded') {
+    throw new MockHttpError(409, 'Conflict', 'Payment intent has already been confirmed');
+  }
+
+  intent.status = 'succeeded';
+
+  // The payment service tells the auction service, which marks the auction paid
+  const auction = intent.metadata?.auctionId ? auctions.get(intent.metadata.auctionId) : undefined;
+  if (auction && canTransition(getAuctionState(auction), 'pay')) {
+    auction.status = 'paid';
+    paymentDeadlines.delete(auction.id);
+    paidAt.set(auction.id, Date.now());
+    touch(auction);
+    publishStatusChange('auction.paid', auction);
+  }
+  return { id, status: 'succeeded', amount: intent.amount, currency: intent.currency };
+}
+
+export function getProfile(username: string): UserProfile {
+  let profile = profiles.get(username);
+  if (!profile) {
+    profile = { id: uuidv4(), username, email: `${username}@example.com` };
+    profiles.set(username, profile);
+  }
+  return { ...profile };
+}
+
+export function updateProfile(username: string, changes: UserProfileUpdateRequest): UserProfile {
+  const profile = { ...getProfile(username) };
+  if (changes.firstName !== undefined) profile.firstName = changes.firstName;
+  if (changes.lastName !== undefined) profile.lastName = changes.lastName;
+  profiles.set(username, profile);
+  return { ...profile };
+}
+
+/**
+ * Public profiles for usernames or user IDs; unknown ones are left out
+ */
+export function getPublicProfiles(userIds: string[]): PublicProfileList {
+  const users = userIds.flatMap((userId): PublicProfile[] => {
+    const profile = profiles.get(userId) ?? [...profiles.values()].find((candidate) => candidate.id === userId);
+    if (!profile) {
+      return [];
+    }
+    const fullName = [profile.firstName, profile.lastName].filter(Boolean).join(' ');
+    return [{ id: profile.id, username: profile.username, displayName: fullName || profile.username }];
+  });
+  return { users };
+}
@@ -0,0 +1,30 @@
+// Amplify Token Provider
+// Supplies the SDK with tokens from the signed-in Cognito session
+
+import { fetchAuthSession } from 'aws-amplify/auth';
+import type { TokenProvider } from '@biddergod/sdk';
+
+export const amplifyTokenProvider: TokenProvider = {
+  async getAccessToken() {
+    const session = await fetchAuthSession();
+    return session.tokens?.accessToken?.toString();
+  },
+
+  // Fails or resolves to undefined once the refresh token is no longer valid
+  async refreshAccessToken() {
+    const session = await fetchAuthSession({ forceRefresh: true });
+    return session.tokens?.accessToken?.toString();
+  },
+
+  // The SSE stream service verifies the ID token, not the access token
+  async getStreamToken() {
+    const session = await fetchAuthSession();
+    return session.tokens?.idToken?.toString();
+  },
+
+  async getUsername() {
+    const session = await fetchAuthSession();
+    const username = session.tokens?.accessToken?.payload.username;
+    return typeof username === 'string' ? username : undefined;
+  },
+};
@@ -0,0 +1,172 @@
+// Health Monitor
+// Checks each service's health endpoint through Kong and, in development, on the
+// service's own port, and keeps a short history per service for the health dashboard
+// Comparing the two routes tells "Kong is down" apart from "one service is down"
+
+import {
+  CIRCUIT_BREAKER,
+  DIRECT_HEALTH_ENDPOINTS,
+  SERVICE_HEALTH_ENDPOINTS,
+  type ServiceName,
+} from '../config/api';
+import { config } from '../config/environment';
+
+export type HealthRoute = 'gateway' | 'direct';
+
+/**
+ * up: answered 2xx
+ * down: answered with an error status (through Kong, 502/503/504 mean Kong is up but the service isn't)
+ * unreachable: no response at all (network error, CORS, timeout)
+ */
+export type HealthStatus = 'up' | 'down' | 'unreachable';
+
+export interface HealthCheck {
+  service: ServiceName;
+  route: HealthRoute;
+  status: HealthStatus;
+  httpStatus?: number;
+  latencyMs: number;
+  error?: string;
+  /** Requests left in Kong's current rate-limit window, when Kong reports it */
+  gatewayRateLimitRemaining?: number;
+  gatewayRateLimitLimit?: number;
+  checkedAt: number;
+}
+
+type HealthCheckListener = (check: HealthCheck) => void;
+
+// Checks kept per service and route, enough for a timeline of the last few minutes
+const HISTORY_LIMIT = 30;
+
+const history = new Map<string, HealthCheck[]>();
+const listeners = new Set<HealthCheckListener>();
+
+function getHistoryKey(service: ServiceName, route: HealthRoute): string {
+  return `${service}:${route}`;
+}
+
+/**
+ * Read the first rate-limit header Kong sent, e.g. X-RateLimit-Remaining-Minute
+ */
+function readRateLimitHeader(headers: Headers, name: 'Remaining' | 'Limit'): number | undefined {
+  const value = headers.get(`X-RateLimit-${name}-Minute`) ?? headers.get(`RateLimit-${name}`);
+  const parsed = value === null ? NaN : Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Whether direct checks run: only in development, where the service ports are reachable
+ * The mock gateway has no service ports, so they are skipped there too
+ */
+export function isDirectCheckEnabled(): boolean {
+  return config.isDevelopment && !config.useMockGateway;
+}
+
+/**
+ * Health URL for a service on a route, or null when it can't be checked that way
+ */
+export function getHealthUrl(service: ServiceName, route: HealthRoute): string | null {
+  if (route === 'direct') {
+    return isDirectCheckEnabled() ? DIRECT_HEALTH_ENDPOINTS[service] : null;
+  }
+  return SERVICE_HEALTH_ENDPOINTS[service];
+}
+
+/**
+ * Check one service on one route and record the result
+ * Returns null when the service has no health endpoint on that route
+ */
+export async function checkServiceHealth(service: ServiceName, route: HealthRoute): Promise<HealthCheck | null> {
+  const url = getHealthUrl(service, route);
+  if (!url) {
+    return null;
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), CIRCUIT_BREAKER.PROBE_TIMEOUT);
+  const startedAt = performance.now();
+  let check: HealthCheck;
+
+  try {
+    const response = await fetch(url, { signal: controller.signal, cache: 'no-store' });
+    check = {
+      service,
+      route,
+      status: response.ok ? 'up' : 'down',
+      httpStatus: response.status,
+      latencyMs: Math.round(performance.now() - startedAt),
+      error: response.ok ? undefined : `HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`,
+      gatewayRateLimitRemaining: route === 'gateway' ? readRateLimitHeader(response.headers, 'Remaining') : undefined,
+      gatewayRateLimitLimit: route === 'gateway' ? readRateLimitHeader(response.headers, 'Limit') : undefined,
+      checkedAt: Date.now(),
+    };
+  } catch (error) {
+    check = {
+      service,
+      route,
+      status: 'unreachable',
+      latencyMs: Math.round(performance.now() - startedAt),
+      error: controller.signal.aborted
+        ? `No response within ${CIRCUIT_BREAKER.PROBE_TIMEOUT / 1000}s`
+        : error instanceof Error ? error.message : String(error),
+      checkedAt: Date.now(),
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  const key = getHistoryKey(service, route);
+  history.set(key, [...(history.get(key) ?? []), check].slice(-HISTORY_LIMIT));
+  listeners.forEach((listener) => listener(check));
+
+  return check;
+}
+
+/**
+ * Check every service on every enabled route at once
+ */
+export async function checkAllServices(): Promise<HealthCheck[]> {
+  const services = Object.keys(SERVICE_HEALTH_ENDPOINTS) as ServiceName[];
+  const routes: HealthRoute[] = isDirectCheckEnabled() ? ['gateway', 'direct'] : ['gateway'];
+
+  const checks = await Promise.all(
+    services.flatMap((service) => routes.map((route) => checkServiceHealth(service, route)))
+  );
+  return checks.filter((check): check is HealthCheck => check !== null);
+}
+
+/**
+ * Recorded checks for a service on a route, oldest first
+ */
+export function getHealthHistory(service: ServiceName, route: HealthRoute): HealthCheck[] {
+  return history.get(getHistoryKey(service, route)) ?? [];
+}
+
+/**
+ * Whether Kong itself is answering, judged from the latest gateway checks
+ * Any HTTP response (even a 503) means Kong is up; no response from any service means it is down
+ */
+export function getGatewayStatus(): 'up' | 'down' | 'unknown' {
+  const latest = (Object.keys(SERVICE_HEALTH_ENDPOINTS) as ServiceName[])
+    .map((service) => {
+      const checks = getHealthHistory(service, 'gateway');
+      return checks[checks.length - 1];
+    })
+    .filter((check): check is HealthCheck => check !== undefined);
+
+  if (latest.length === 0) {
+    return 'unknown';
+  }
+  return latest.some((check) => check.status !== 'unreachable') ? 'up' : 'down';
+}
+
+/**
+ * Subscribe to every recorded health check
+ * Returns an unsubscribe function
+ */
+export function onHealthCheck(listener: HealthCheckListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
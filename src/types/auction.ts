@@ -1,77 +1,92 @@
 // Auction entity
 
-export interface Auction {
-  id: string;
-  itemName: string;
-  itemDescription: string;
-  category: string;
-  condition: string;
-  imageUrls: string;
-  startingPrice: number;
-  currentPrice: number;
-  sellerId: string;
-  winnerId?: string | null;
-  startTime: string;
-  endTime: string;
-  status: 'draft' | 'open' | 'closed';
-  createdAt: string;
-  updatedAt: string;
-}
+import {
+  getAuctionCurrency,
+  getAuctionImages,
+  getAuctionState,
+  getDisplayName,
+  moneyFromMajor,
+  type Auction,
+  type AuctionImage,
+  type AuctionState,
+  type Money,
+  type PublicProfile,
+} from '@biddergod/sdk';
+
+// Wire types, query parameters and schemas live in the SDK
+export type {
+  Auction,
+  AuctionImage,
+  AuctionPage,
+  AuctionQueryParams,
+  AuctionSort,
+  AuctionState,
+  AuctionStatus,
+  CreateAuctionRequest,
+  GetAuctionsResponse,
+  UpdateAuctionRequest,
+} from '@biddergod/sdk';
 
 // Frontend display format
 export interface AuctionDisplay {
   id: string;
   title: string;
   itemDescription: string;
-  startingPrice: number;
-  currentBid: number;
-  imageUrls: string[];
+  startingPrice: Money;
+  currentBid: Money;
+  /** In display order, exactly one flagged primary */
+  images: AuctionImage[];
   condition?: string;
   auctionEndTime: string;
-  status: string;
-  totalBids: number;
+  status: AuctionState;
+  /** Undefined until bid-query has counted the bids, or when counting failed */
+  totalBids?: number;
+  /** Raw seller ID, for ownership checks */
+  sellerId: string;
+  /** Seller's public display name, the raw ID until it has loaded */
   sellerName: string;
+  sellerAvatarUrl?: string;
   winnerId?: string | null;
+  winnerName?: string;
   category?: string;
 }
 
-// API response types
-export interface GetAuctionsResponse {
-  auctions: Auction[];
-}
-
-export interface GetAuctionResponse {
-  auction: Auction;
-}
-
-export interface CreateAuctionRequest {
-  itemName: string;
-  itemDescription: string;
-  startingPrice: number;
-  sellerId: string;
-  startTime: string; // ISO 8601 datetime
-  endTime: string; // ISO 8601 datetime
-}
-
-export interface CreateAuctionResponse {
-  auction: Auction;
+// Details that come from other services than the auction service
+export interface AuctionDisplayDetails {
+  /** From the bid-query service (see useBidCounts) */
+  bidCount?: number;
+  /** Public profiles by user ID, from the user service (see usePublicProfiles) */
+  profiles?: Record<string, PublicProfile>;
 }
 
 // Utility function to convert backend Auction to frontend AuctionDisplay
-export function mapAuctionToDisplay(auction: Auction): AuctionDisplay {
+export function mapAuctionToDisplay(
+  auction: Auction,
+  { bidCount, profiles = {} }: AuctionDisplayDetails = {}
+): AuctionDisplay {
+  const seller = profiles[auction.sellerId];
+  const currency = getAuctionCurrency(auction);
   return {
     id: auction.id,
     title: auction.itemName,
     itemDescription: auction.itemDescription,
-    startingPrice: auction.startingPrice,
-    currentBid: auction.currentPrice,
-    imageUrls: auction.imageUrls ? auction.imageUrls.split(',') : [],
+    startingPrice: moneyFromMajor(auction.startingPrice, currency),
+    currentBid: moneyFromMajor(auction.currentPrice, currency),
+    images: getAuctionImages(auction),
     condition: auction.condition, // Not in backend schema yet
     auctionEndTime: auction.endTime,
-    status: auction.status,
-    totalBids: 0, // TODO: Will need bid count from bidding service
-    sellerName: auction.sellerId, // TODO: Fetch seller name from user service
+    status: getAuctionState(auction),
+    totalBids: bidCount,
+    sellerId: auction.sellerId,
+    sellerName: getDisplayName(auction.sellerId, seller),
+    sellerAvatarUrl: seller?.avatarUrl,
     winnerId: auction.winnerId,
+    winnerName: auction.winnerId ? getDisplayName(auction.winnerId, profiles[auction.winnerId]) : undefined,
     category: auction.category, // Not in backend schema yet
   };
-}
\ No newline at end of file
+}
+
+// Sellers and winners of a list of auctions, to look up their public profiles
+export function getAuctionUserIds(auctions: Auction[]): string[] {
+  return auctions.flatMap((auction) => (auction.winnerId ? [auction.sellerId, auction.winnerId] : [auction.sellerId]));
+}
@@ -1,6 +1,7 @@
 import {defineConfig} from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from "@tailwindcss/vite";
+import {fileURLToPath} from 'node:url'
 
 // https://vitejs.dev/config/
 export default defineConfig({
@@ -12,6 +13,12 @@ export default defineConfig({
         },
     },
     plugins: [react(),tailwindcss()],
+    resolve: {
+        alias: {
+            // The SDK is built from source with the app, no separate build step in development
+            '@biddergod/sdk': fileURLToPath(new URL('./packages/sdk/src/index.ts', import.meta.url)),
+        },
+    },
     define: {
         global: 'globalThis',
     },